@@ -0,0 +1,153 @@
+import Error from '../../utils/error';
+import KeyMap from '../../utils/key-map';
+import ConstraintMap, { Constraints } from '../../utils/constraint-map';
+import { InternalId, Defaults, DatabaseWrite } from '../../utils/constants';
+import { toDatabaseDate } from '../../utils/format';
+import Relation from '../../features/orm/relation';
+import { IDatabaseAdapter, IDatabaseTransaction, DatabaseAction, AggregateOptionsType, AggregateRow } from '../../types/database';
+import { ClassId } from '../../types/class';
+import { TableSchema, MigrationOperation } from '../../types/migrations';
+
+/**
+ * Base class for database adapters
+ * @description Only `initialize`, `find`, `create`, `update` and `destroy` must be implemented.
+ * Other capabilities fall back to these methods, or throw if they cannot be emulated,
+ * so that adapters keep working when new capabilities are added.
+ */
+export default abstract class DatabaseAdapter implements IDatabaseAdapter {
+
+    /**
+     * Get current timesamp
+     * @returns {String}
+     */
+    get currentTimestamp(): string {
+        return toDatabaseDate(new Date().toISOString());
+    }
+
+    public abstract initialize(): Promise<void>;
+
+    public abstract find(
+        source: [string, string],
+        columns: Map<string, string>,
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+        sorting: string[],
+        skipped: number,
+        limitation: number,
+        action?: DatabaseAction,
+    ): Promise<KeyMap[]>;
+
+    public abstract create(source: string, keys: KeyMap): Promise<ClassId>;
+
+    public abstract update(source: string, keys: KeyMap, id: ClassId, conditions?: KeyMap): Promise<number>;
+
+    public abstract destroy(source: string, keys: KeyMap, id: ClassId): Promise<void>;
+
+    /**
+     * Throw an error for a capability that the adapter does not implement
+     * @param {String} capability
+     */
+    protected unsupported(capability: string): never {
+        throw new Error(Error.Code.ForbiddenOperation, `\`${capability}\` is not supported by \`${this.constructor.name}\``);
+    }
+
+    /**
+     * Count the rows, by fetching their ids one page at a time
+     */
+    public async count(
+        source: [string, string],
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+    ): Promise<number> {
+        const idKey = Relation.formatKey(source[1], InternalId);
+        const columns = new Map([ [ idKey, InternalId ] ]);
+        const limitation = Defaults.Query.Limit;
+
+        let count = 0;
+        for (let skipped = 0; ; skipped += limitation) {
+            const rows = await this.find(source, columns, relations, constraints, [ idKey ], skipped, limitation);
+            count += rows.length;
+            if (rows.length < limitation) return count;
+        }
+    }
+
+    public async aggregate(options: AggregateOptionsType): Promise<AggregateRow[]> {
+        return this.unsupported('aggregate');
+    }
+
+    /**
+     * Create the rows one at a time
+     */
+    public async createMany(source: string, rows: KeyMap[]): Promise<ClassId[]> {
+        const ids: ClassId[] = [];
+        for (const keys of rows) ids.push(await this.create(source, keys));
+        return ids;
+    }
+
+    /**
+     * Update the row that has the same conflict keys, or create it
+     * @description Unlike native upserts, the row is found and saved with separate statements
+     */
+    public async upsert(source: string, keys: KeyMap, conflictKeys: string[], updateKeys: KeyMap): Promise<ClassId> {
+        // Find the existing row, including those that were soft deleted, on the connection that saves it
+        const idKey = Relation.formatKey(source, InternalId);
+        const constraints = new ConstraintMap;
+        for (const key of conflictKeys) constraints.set(Relation.formatKey(source, key), Constraints.EqualTo, keys.get(key));
+        const columns = new Map([ [ idKey, InternalId ] ]);
+        const [ existing ] = await this.find([ source, source ], columns, new Map, constraints, [ idKey ], 0, 1, DatabaseWrite);
+
+        // Create the row if nothing conflicts with it
+        if (typeof existing === 'undefined') return await this.create(source, keys);
+
+        const id = existing.get(InternalId);
+        await this.update(source, updateKeys, id);
+        return id;
+    }
+
+    /**
+     * Update the rows one at a time
+     */
+    public async updateMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<number> {
+        let updated = 0;
+        for (const id of ids) updated += await this.update(source, new KeyMap(keys.toJSON()), id);
+        return updated;
+    }
+
+    /**
+     * Destroy the rows one at a time
+     */
+    public async destroyMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<void> {
+        for (const id of ids) await this.destroy(source, new KeyMap(keys.toJSON()), id);
+    }
+
+    public async forceDestroy(source: string, id: ClassId): Promise<void> {
+        return this.unsupported('forceDestroy');
+    }
+
+    /**
+     * Permanently destroy the rows one at a time
+     */
+    public async forceDestroyMany(source: string, ids: ClassId[]): Promise<void> {
+        for (const id of ids) await this.forceDestroy(source, id);
+    }
+
+    public async attach(through: string, rows: KeyMap[]): Promise<void> {
+        return this.unsupported('attach');
+    }
+
+    public async detach(through: string, constraints: ConstraintMap): Promise<void> {
+        return this.unsupported('detach');
+    }
+
+    public async transaction(): Promise<IDatabaseTransaction> {
+        return this.unsupported('transaction');
+    }
+
+    public async describe(): Promise<TableSchema[]> {
+        return this.unsupported('describe');
+    }
+
+    public async migrate(operations: MigrationOperation[]): Promise<void> {
+        return this.unsupported('migrate');
+    }
+}
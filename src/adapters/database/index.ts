@@ -1,12 +1,40 @@
-import { IDatabaseAdapter, URIConfig, DatabaseConfig } from '../../types/database';
+import { IDatabaseAdapter, DatabaseConfig } from '../../types/database';
 import MySQLDatabaseAdapter from './mysql';
+import PostgresDatabaseAdapter from './postgres';
+import SQLiteDatabaseAdapter from './sqlite';
+import MemoryDatabaseAdapter from './memory';
 import Error from '../../utils/error';
 
 export default class Database {
 
-    public static Protocols = Object.freeze({
+    private static protocols: { [protocol: string]: typeof IDatabaseAdapter } = {
         mysql: MySQLDatabaseAdapter,
-    });
+        postgres: PostgresDatabaseAdapter,
+        postgresql: PostgresDatabaseAdapter,
+        sqlite: SQLiteDatabaseAdapter,
+        memory: MemoryDatabaseAdapter,
+    };
+
+    /**
+     * Registered adapters, keyed by protocol
+     */
+    public static get Protocols() {
+        return Object.freeze({ ...this.protocols });
+    }
+
+    /**
+     * Static register
+     * @param {String} protocol
+     * @param {IDatabaseAdapter} adapter
+     */
+    public static register(protocol: string, adapter: typeof IDatabaseAdapter): void {
+        // Check if adapter can be instantiated
+        if (typeof adapter !== 'function')
+            throw new Error(Error.Code.MissingConfiguration, `Database adapter for \`${protocol}\` must be a class`);
+
+        // Set the adapter
+        this.protocols[protocol] = adapter;
+    }
 
     /**
      * Static use
@@ -14,7 +42,7 @@ export default class Database {
      */
     public static use(protocol: string, config: DatabaseConfig): IDatabaseAdapter {
         // Get database protocol
-        const database = this.Protocols[protocol];
+        const database = this.protocols[protocol];
 
         // Check if database exists
         if (typeof database === 'undefined')
@@ -22,4 +50,4 @@ export default class Database {
         else
             return new database(config);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,755 @@
+import DatabaseAdapter from '../adapter';
+import Error from '../../../utils/error';
+import KeyMap from '../../../utils/key-map';
+import {
+    SortSymbol,
+    InternalId,
+    CreatedAt,
+    UpdatedAt,
+    DeletedAt,
+    SetJsonTypeName,
+    AppendJsonTypeName,
+    Aggregates,
+    MigrationOperations,
+} from '../../../utils/constants';
+import ConstraintMap, { Constraints, ConstraintObject, ConstraintGroups } from '../../../utils/constraint-map';
+import CompoundKey from '../../../utils/compound-key';
+import {
+    IDatabaseTransaction,
+    DatabaseAction,
+    DatabaseConfig,
+    FindClauseOptionsType,
+    AggregateOptionsType,
+    AggregateRow,
+    RelatedSubqueryType,
+} from '../../../types/database';
+import Relation from '../../../features/orm/relation';
+import Query from '../../../features/orm/query';
+import Class from '../../../features/orm/class';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { ClassId } from '../../../types/class';
+import { ILogger } from '../../../types/logger';
+import { TableSchema, ColumnSchema, MigrationOperation } from '../../../types/migrations';
+
+/**
+ * A stored row, keyed by column name
+ */
+export interface MemoryRow { [column: string]: any; }
+
+/**
+ * A joined row, keyed by `alias.column`
+ */
+type MemoryContext = MemoryRow;
+
+/**
+ * A compiled constraint
+ */
+type MemoryPredicate = (context: MemoryContext) => boolean;
+
+/**
+ * A copy of the tables and their schemas, taken when a transaction begins
+ */
+interface MemorySnapshot {
+    tables: { [source: string]: MemoryRow[] };
+    schemas: { [source: string]: ColumnSchema[] };
+}
+
+/**
+ * The last holder of the lock on the tables, shared by the adapter and its transactions
+ */
+interface MemoryLock { current: Promise<void>; }
+
+export default class MemoryDatabaseAdapter extends DatabaseAdapter {
+
+    /**
+     * Private properties
+     */
+    private logger: ILogger;
+    private tables: { [source: string]: MemoryRow[] } = {};
+    private schemas: { [source: string]: ColumnSchema[] } = {};
+    private snapshot?: MemorySnapshot;
+    private lock: MemoryLock = { current: Promise.resolve() };
+    private release?: () => void;
+    private constraints = {
+        [Constraints.EqualTo]: (k, v) => c => this.isEqual(this.getValue(c, k), v),
+        [Constraints.NotEqualTo]: (k, v) => c => this.isComparable(this.getValue(c, k), v) && !this.isEqual(this.getValue(c, k), v),
+        [Constraints.GreaterThan]: (k, v) => c => this.isComparable(this.getValue(c, k), v) && this.compare(this.getValue(c, k), v) > 0,
+        [Constraints.GreaterThanOrEqualTo]: (k, v) => c => this.isComparable(this.getValue(c, k), v) && this.compare(this.getValue(c, k), v) >= 0,
+        [Constraints.LessThan]: (k, v) => c => this.isComparable(this.getValue(c, k), v) && this.compare(this.getValue(c, k), v) < 0,
+        [Constraints.LessThanOrEqualTo]: (k, v) => c => this.isComparable(this.getValue(c, k), v) && this.compare(this.getValue(c, k), v) <= 0,
+        [Constraints.Exists]: (k, v) => c => (this.getValue(c, k) !== null) === Boolean(v),
+        [Constraints.ContainedIn]: (k, v) => c => this.isContainedIn(this.getValue(c, k), v),
+        [Constraints.NotContainedIn]: (k, v) => c => this.getValue(c, k) !== null && !this.isContainedIn(this.getValue(c, k), v),
+        [Constraints.ContainedInOrDoesNotExist]: (k, v) => c => this.getValue(c, k) === null || this.isContainedIn(this.getValue(c, k), v),
+        [Constraints.StartsWith]: (k, v) => c => this.isLike(this.getValue(c, k), `${v}`, (text, term) => text.startsWith(term)),
+        [Constraints.EndsWith]: (k, v) => c => this.isLike(this.getValue(c, k), `${v}`, (text, term) => text.endsWith(term)),
+        [Constraints.Contains]: (k, v) => c => this.isLike(this.getValue(c, k), `${v}`, (text, term) => text.includes(term)),
+        [Constraints.ContainsEither]: (k, v) => c => v.some(i => this.isLike(this.getValue(c, k), `${i}`, (text, term) => text.includes(term))),
+        [Constraints.ContainsAll]: (k, v) => c => v.every(i => this.isLike(this.getValue(c, k), `${i}`, (text, term) => text.includes(term))),
+        [Constraints.FoundIn]: (k, v) => this.constraints[Constraints.ContainedIn](k, this.subqueryValues(v)),
+        [Constraints.FoundInEither]: (k, v) => this.some(v.map(i => this.constraints[Constraints.FoundIn](k, i))),
+        [Constraints.FoundInAll]: (k, v) => this.every(v.map(i => this.constraints[Constraints.FoundIn](k, i))),
+        [Constraints.NotFoundIn]: (k, v) => this.constraints[Constraints.NotContainedIn](k, this.subqueryValues(v)),
+        [Constraints.NotFoundInEither]: (k, v) => this.every(v.map(i => this.constraints[Constraints.NotFoundIn](k, i))),
+        [Constraints.HasRelated]: (k, v) => this.hasRelated(v),
+        [Constraints.DoesNotHaveRelated]: (k, v) => {
+            const predicate = this.hasRelated(v);
+            return context => !predicate(context);
+        },
+    };
+
+    /**
+     * Constructor
+     * @param {Object} config
+     */
+    constructor({ logger }: DatabaseConfig) {
+        super();
+        this.logger = logger;
+    }
+
+    public async initialize() {
+        // Nothing to connect to
+        this.logger.info('Using the in-memory database');
+    }
+
+    /**
+     * Get the rows of a table, creating the table if it does not exist
+     * @param {String} source
+     */
+    private table(source: string): MemoryRow[] {
+        this.tables[source] = this.tables[source] || [];
+        return this.tables[source];
+    }
+
+    /**
+     * Wait for the previous holder of the lock, then hold it until released
+     * @description Each caller is chained to the previous one before waiting, so only one of them holds the lock at a time
+     */
+    private async acquire(): Promise<() => void> {
+        const previous = this.lock.current;
+        let release: () => void = () => undefined;
+        this.lock.current = new Promise(resolve => release = resolve);
+        await previous;
+        return release;
+    }
+
+    /**
+     * Run a statement while holding the lock, unless the statement is part of the running transaction
+     * @description Every statement runs through here, since reads and writes share the same tables
+     * and must not see the changes of a transaction that has not ended
+     * @param {Function} statement
+     */
+    private async exclusive<T>(statement: () => T): Promise<T> {
+        if (typeof this.snapshot !== 'undefined') return statement();
+
+        const release = await this.acquire();
+        try {
+            return statement();
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Prefix the columns of a row with the given alias
+     * @param {String} alias
+     * @param {Object} row
+     */
+    private qualify(alias: string, row: MemoryRow): MemoryContext {
+        return Object.keys(row).reduce((context, column) => {
+            context[Relation.formatKey(alias, column)] = row[column];
+            return context;
+        }, {});
+    }
+
+    /**
+     * Get the value of a key from a context, similar to how columns are resolved in SQL
+     * @param {Object} context
+     * @param {String} key
+     */
+    private getValue(context: MemoryContext, key: string): any {
+        // If key is a compound key, concatenate the values
+        if (CompoundKey.isUsedBy(key)) {
+            const values = CompoundKey.from(key).map(k => this.getValue(context, k));
+            return values.some(item => item === null) ? null : values.join('');
+        }
+
+        // Treat missing values as null
+        const value = context[key];
+        return typeof value === 'undefined' ? null : value;
+    }
+
+    private isComparable(a: any, b: any): boolean {
+        return a !== null && typeof a !== 'undefined' && b !== null && typeof b !== 'undefined';
+    }
+
+    private compare(a: any, b: any): number {
+        // Compare numerically if either side is a number
+        if ((typeof a === 'number' || typeof b === 'number') && !isNaN(Number(a)) && !isNaN(Number(b)))
+            return Number(a) - Number(b);
+
+        // Otherwise, compare as strings
+        const [ textA, textB ] = [ String(a), String(b) ];
+        return textA < textB ? -1 : textA > textB ? 1 : 0;
+    }
+
+    private isEqual(a: any, b: any): boolean {
+        return this.isComparable(a, b) && this.compare(a, b) === 0;
+    }
+
+    private isContainedIn(value: any, list: any[]): boolean {
+        return list.some(item => this.isEqual(value, item));
+    }
+
+    private isLike(value: any, term: string, matcher: (text: string, term: string) => boolean): boolean {
+        return value !== null && matcher(String(value).toLowerCase(), term.toLowerCase());
+    }
+
+    private some(predicates: MemoryPredicate[]): MemoryPredicate {
+        return context => predicates.some(predicate => predicate(context));
+    }
+
+    private every(predicates: MemoryPredicate[]): MemoryPredicate {
+        return context => predicates.every(predicate => predicate(context));
+    }
+
+    /**
+     * Get the selected values of a subquery
+     * @param {Query} query
+     */
+    private subqueryValues<T extends typeof Class>(query: Query<T>): any[] {
+        // Get query keys
+        const { source, columns, relations, constraints } = query.toQueryOptions();
+
+        // Get the selected key
+        const [ selected ] = [ ...columns.keys() ];
+
+        // Return the matching values
+        return this.getFindResult({ source, columns, relations, constraints })
+            .map(context => this.getValue(context, selected));
+    }
+
+    /**
+     * Check if a context has related rows that match the subquery
+     * @param {Object} subquery
+     */
+    private hasRelated({ query, through, correlations }: RelatedSubqueryType): MemoryPredicate {
+        // Get query keys
+        const { source, columns, relations, constraints } = query.toQueryOptions();
+
+        // Get the matching rows, joined with the pivot table if there is one
+        let contexts = this.getFindResult({ source, columns, relations, constraints });
+        if (typeof through !== 'undefined') {
+            const [ key, otherKey ] = through.on;
+            contexts = this.table(through.source[0]).reduce<MemoryContext[]>((list, row) => {
+                const pivot = this.qualify(through.source[1], row);
+                const joined = contexts.map(context => ({ ...context, ...pivot }));
+                return [ ...list, ...joined.filter(context => this.isEqual(this.getValue(context, key), this.getValue(context, otherKey))) ];
+            }, []);
+        }
+
+        // Check if any of the rows are correlated to the context
+        return context => contexts.some(related => correlations.every(([ key, parentKey ]) => {
+            return this.isEqual(this.getValue(related, key), this.getValue(context, parentKey));
+        }));
+    }
+
+    private parseConstraint(key: string, constraint: string, value: any): MemoryPredicate {
+        // Check if constraint exists
+        if (typeof this.constraints[constraint] !== 'undefined') {
+            // Return constraint
+            return this.constraints[constraint](key, value);
+        }
+
+        // Else, throw an error
+        throw new Error(Error.Code.ForbiddenOperation, `Constraint not found: ${constraint}`);
+    }
+
+    /**
+     * Get the predicate of a constraint map, including its groups
+     * @param {ConstraintMap} constraints
+     */
+    private getWhere(constraints: ConstraintMap): MemoryPredicate {
+        // Get key constraints
+        const where = constraints.toArray()
+            .reduce<ConstraintObject[]>((list, keyConstraints) => [ ...list, ...keyConstraints.constraints ], [])
+            .map(({ key, constraint, value }) => this.parseConstraint(key, constraint, value));
+
+        // Get groups
+        for (const group of constraints.groups) {
+            const predicates = group.maps.map(map => this.getWhere(map));
+            where.push(group.type === ConstraintGroups.Or ? this.some(predicates) : this.every(predicates));
+        }
+
+        return this.every(where);
+    }
+
+    /**
+     * Get joined rows that match the constraints
+     * @description Decoupled from the `find` method
+     * in order to allow subqueries
+     * @param {String} source
+     * @param {Array} relations
+     * @param {KeyMap} where
+     */
+    private getFindResult({
+        source,
+        relations,
+        constraints,
+    }: FindClauseOptionsType): MemoryContext[] {
+        // Get where
+        const where = this.getWhere(constraints);
+
+        // Get rows from the source
+        const contexts = this.table(source[0]).map(row => {
+            // Get from
+            const context = this.qualify(source[1], row);
+
+            // Get joins
+            for (const [ alias, relation ] of relations.entries()) {
+                const [ , parentKey ] = Relation.parseKey(relation.parentClassKey());
+                const sourceValue = this.getValue(context, relation.sourceClassKey(source[1]));
+                const match = this.table(relation.class.source).find(item => this.isEqual(item[parentKey], sourceValue));
+                Object.assign(context, this.qualify(alias, match || {}));
+            }
+
+            return context;
+        });
+
+        // Return matching rows
+        return contexts.filter(where);
+    }
+
+    /**
+     * Sort joined rows
+     * @param {Array} contexts
+     * @param {Array} sort
+     */
+    private sort(contexts: MemoryContext[], sort: string[]): MemoryContext[] {
+        return contexts.sort((a, b) => {
+            for (const keySort of sort) {
+                // If it starts with a hyphen, sort by descending order
+                const descending = keySort[0] === SortSymbol;
+                const key = descending ? keySort.slice(1) : keySort;
+                const [ valueA, valueB ] = [ this.getValue(a, key), this.getValue(b, key) ];
+
+                // Null values come first, similar to SQL
+                let order = 0;
+                if (valueA === null && valueB !== null) order = -1;
+                else if (valueA !== null && valueB === null) order = 1;
+                else if (valueA !== null && valueB !== null) order = this.compare(valueA, valueB);
+
+                if (order !== 0) return descending ? -order : order;
+            }
+            return 0;
+        });
+    }
+
+    /**
+     * Map joined rows into key maps with the appropriate relations
+     * @param {Object} context
+     * @param {Map} columns
+     */
+    private mapRows(context: MemoryContext, columns: Map<string, string>): KeyMap {
+        // Prepare key map
+        const keys = new KeyMap;
+
+        // Iterate through the selected columns
+        for (const [ key, alias ] of columns.entries()) {
+            const value = this.getValue(context, key);
+
+            // If key is for a relation
+            if (Relation.isUsedBy(alias)) {
+                // Prepare relation parameters
+                const [ relationName, relationKey ] = Relation.parseKey(alias);
+
+                // Assign relation, including nested relations
+                keys.set(relationName, Relation.assignKey(keys.get(relationName), relationKey, value));
+            } else {
+                // Set the key value
+                keys.set(alias, value);
+            }
+        }
+
+        // Return the key map
+        return keys;
+    }
+
+    /**
+     * Get the value to be stored, resolving special values
+     * @param {Object} row
+     * @param {String} key
+     * @param {*} value
+     */
+    private getStoredValue(row: MemoryRow, key: string, value: any): any {
+        if (value instanceof Increment) {
+            // Increment the current value within the bounds
+            let incremented = Math.max(Number(row[key] || 0) + value.value, value.min);
+            if (typeof value.max !== 'undefined') incremented = Math.min(incremented, value.max);
+            return incremented;
+        } else if (value instanceof JsonAction) {
+            return this.getJsonValue(row[key], value);
+        } else if (value instanceof Class) {
+            return value.id;
+        } else return value;
+    }
+
+    /**
+     * Apply a json action to a stored json value
+     * @param {*} current
+     * @param {JsonAction} action
+     */
+    private getJsonValue(current: any, action: JsonAction): string {
+        // Parse the path (i.e. `$.a.b[0]`)
+        const path = action.path.replace(/^\$/, '')
+            .split(/[.\[\]]/)
+            .filter(item => item !== '')
+            .map(item => item.replace(/^"|"$/g, ''));
+
+        // Parse the current value
+        const parsed = typeof current === 'string' ? JSON.parse(current) : current;
+        const fallback = action.type === AppendJsonTypeName ? [] : {};
+        const document = { value: parsed === null || typeof parsed === 'undefined' ? fallback : parsed };
+
+        // Find the parent of the target
+        let parent = document;
+        let target = 'value';
+        for (const item of path) {
+            if (typeof parent[target] !== 'object' || parent[target] === null) {
+                if (action.type === AppendJsonTypeName) return JSON.stringify(document.value);
+                parent[target] = {};
+            }
+            parent = parent[target];
+            target = item;
+        }
+
+        // Apply the action
+        if (action.type === SetJsonTypeName) {
+            parent[target] = action.value;
+        } else if (typeof parent[target] !== 'undefined') {
+            const existing = parent[target];
+            parent[target] = existing instanceof Array ? [ ...existing, action.value ] : [ existing, action.value ];
+        }
+
+        return JSON.stringify(document.value);
+    }
+
+    /**
+     * Get the aggregate of the given values
+     * @param {String} type
+     * @param {Array} values
+     */
+    private getAggregateValue(type: string, values: any[]): any {
+        // Ignore null values, similar to SQL
+        const items = values.filter(item => item !== null);
+        if (type === Aggregates.Count) return items.length;
+        if (items.length === 0) return null;
+
+        // Get the aggregate
+        const sum = () => items.reduce((total, item) => total + Number(item), 0);
+        if (type === Aggregates.Sum) return sum();
+        else if (type === Aggregates.Average) return sum() / items.length;
+        else if (type === Aggregates.Minimum) return items.reduce((min, item) => this.compare(item, min) < 0 ? item : min);
+        else if (type === Aggregates.Maximum) return items.reduce((max, item) => this.compare(item, max) > 0 ? item : max);
+        else throw new Error(Error.Code.ForbiddenOperation, `Aggregate not found: ${type}`);
+    }
+
+    /**
+     * Assign keys to a stored row
+     * @param {Object} row
+     * @param {KeyMap} keys
+     */
+    private assign(row: MemoryRow, keys: KeyMap): MemoryRow {
+        for (const [ key, value ] of keys.toArray())
+            row[key] = this.getStoredValue(row, key, value);
+        return row;
+    }
+
+    public async find(
+        source: [string, string],
+        columns: Map<string, string>,
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+        sorting: string[],
+        skipped: number,
+        limitation: number,
+        action?: DatabaseAction,
+    ): Promise<KeyMap[]> {
+        return await this.exclusive(() => {
+            // Get matching rows
+            const result = this.getFindResult({ source, columns, relations, constraints });
+
+            // Sort and paginate the rows
+            const contexts = this.sort(result, sorting).slice(skipped, skipped + limitation);
+
+            // Return result as an array of KeyMaps
+            return contexts.map(context => this.mapRows(context, columns));
+        });
+    }
+
+    public async count(
+        source: [string, string],
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+    ): Promise<number> {
+        return await this.exclusive(() => {
+            // Count matching rows
+            return this.getFindResult({ source, columns: new Map, relations, constraints }).length;
+        });
+    }
+
+    public async aggregate({
+        source,
+        aggregates,
+        groupings,
+        relations,
+        constraints,
+        having,
+        sorting,
+        skipped,
+        limitation,
+    }: AggregateOptionsType): Promise<AggregateRow[]> {
+        return await this.exclusive(() => {
+            // Get matching rows
+            const result = this.getFindResult({ source, columns: new Map, relations, constraints });
+
+            // Group the rows
+            const groups: Map<string, MemoryContext[]> = new Map;
+            for (const context of result) {
+                const groupId = JSON.stringify([ ...groupings.keys() ].map(key => this.getValue(context, key)));
+                groups.set(groupId, [ ...(groups.get(groupId) || []), context ]);
+            }
+
+            // Without groupings, there is always a single row, similar to SQL
+            if (groupings.size === 0 && groups.size === 0) groups.set('[]', []);
+
+            // Aggregate each group, keeping the grouped keys for sorting
+            const contexts = [ ...groups.values() ].map(items => {
+                const context: MemoryContext = {};
+                for (const [ key, alias ] of groupings.entries())
+                    context[key] = context[alias] = this.getValue(items[0], key);
+                for (const [ alias, { type, key } ] of aggregates.entries())
+                    context[alias] = this.getAggregateValue(type, items.map(item => this.getValue(item, key)));
+                return context;
+            });
+
+            // Filter, sort and paginate the rows
+            const rows = this.sort(contexts.filter(this.getWhere(having)), sorting).slice(skipped, skipped + limitation);
+
+            // Return the selected aliases
+            const aliases = [ ...groupings.values(), ...aggregates.keys() ];
+            return rows.map(context => aliases.reduce((row, alias) => ({ ...row, [alias]: context[alias] }), {}));
+        });
+    }
+
+    /**
+     * Insert a row, similar to an auto-increment
+     * @param {String} source
+     * @param {KeyMap} keys
+     */
+    private insert(source: string, keys: KeyMap): ClassId {
+        // Add timestamps
+        const now = this.currentTimestamp;
+        keys.set(CreatedAt, now);
+        keys.set(UpdatedAt, now);
+
+        // Get table
+        const table = this.table(source);
+
+        // Get id, similar to an auto-increment
+        const id = keys.has(InternalId) ? keys.get(InternalId)
+            : table.reduce((max, item) => Math.max(max, Number(item[InternalId]) || 0), 0) + 1;
+
+        // Check if id is taken
+        if (table.some(item => this.isEqual(item[InternalId], id)))
+            throw new Error(Error.Code.DatabaseError, `Duplicate entry \`${id}\` for \`${source}\``);
+
+        // Create the item
+        const row = this.assign({ [DeletedAt]: null }, keys);
+        row[InternalId] = id;
+        table.push(row);
+
+        // Return the id
+        return id;
+    }
+
+    public async create(source: string, keys: KeyMap): Promise<ClassId> {
+        return await this.exclusive(() => this.insert(source, keys));
+    }
+
+    public async createMany(source: string, rows: KeyMap[]): Promise<ClassId[]> {
+        // Create the items in order
+        return await this.exclusive(() => rows.map(keys => this.insert(source, keys)));
+    }
+
+    public async upsert(source: string, keys: KeyMap, conflictKeys: string[], updateKeys: KeyMap): Promise<ClassId> {
+        return await this.exclusive(() => {
+            // Create the item if nothing conflicts with it
+            const row = this.table(source).find(item => conflictKeys.every(key => this.isEqual(item[key], keys.get(key))));
+            if (typeof row === 'undefined') return this.insert(source, keys);
+
+            // Add timestamps
+            const now = this.currentTimestamp;
+            updateKeys.set(UpdatedAt, now);
+
+            // Update the existing item
+            this.assign(row, updateKeys);
+            return row[InternalId];
+        });
+    }
+
+    public async update(source: string, keys: KeyMap, id: ClassId, conditions: KeyMap = new KeyMap): Promise<number> {
+        return await this.exclusive(() => {
+            // Add timestamps
+            const now = this.currentTimestamp;
+            keys.set(UpdatedAt, now);
+
+            // Update the item, if it matches the conditions
+            const row = this.table(source).find(item => this.isEqual(item[InternalId], id)
+                && conditions.toArray().every(([ key, value ]) => this.isEqual(item[key], value)));
+            if (typeof row === 'undefined') return 0;
+
+            this.assign(row, keys);
+            return 1;
+        });
+    }
+
+    public async updateMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<number> {
+        return await this.exclusive(() => {
+            // Add timestamps
+            const now = this.currentTimestamp;
+            keys.set(UpdatedAt, now);
+
+            // Update the matching items
+            const rows = this.table(source).filter(item => ids.some(id => this.isEqual(item[InternalId], id)));
+            for (const row of rows) this.assign(row, keys);
+            return rows.length;
+        });
+    }
+
+    public async destroy(source: string, keys: KeyMap, id: ClassId): Promise<void> {
+        await this.destroyMany(source, keys, [ id ]);
+    }
+
+    public async destroyMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<void> {
+        // Add the deletion timestamp, along with the update timestamp
+        keys.set(DeletedAt, this.currentTimestamp);
+
+        // Update the items
+        await this.updateMany(source, keys, ids);
+    }
+
+    public async forceDestroy(source: string, id: ClassId): Promise<void> {
+        await this.forceDestroyMany(source, [ id ]);
+    }
+
+    public async forceDestroyMany(source: string, ids: ClassId[]): Promise<void> {
+        return await this.exclusive(() => {
+            // Remove the items permanently
+            this.tables[source] = this.table(source).filter(item => !ids.some(id => this.isEqual(item[InternalId], id)));
+        });
+    }
+
+    public async attach(through: string, rows: KeyMap[]): Promise<void> {
+        return await this.exclusive(() => {
+            // Insert the links
+            const table = this.table(through);
+            for (const keys of rows) table.push(this.assign({}, keys));
+        });
+    }
+
+    public async detach(through: string, constraints: ConstraintMap): Promise<void> {
+        return await this.exclusive(() => {
+            // Remove the matching links permanently
+            const where = this.getWhere(constraints);
+            this.tables[through] = this.table(through).filter(row => !where(this.qualify(through, row)));
+        });
+    }
+
+    public async describe(): Promise<TableSchema[]> {
+        return await this.exclusive(() => {
+            // Only tables created by migrations have a schema
+            return Object.entries(this.schemas).map(([ name, columns ]) => ({ name, columns: columns.map(column => ({ ...column })) }));
+        });
+    }
+
+    public async migrate(operations: MigrationOperation[]): Promise<void> {
+        return await this.exclusive(() => {
+            for (const { type, table, columns = [] } of operations) {
+                // Get the column names
+                const names = columns.map(column => column.name);
+
+                if (type === MigrationOperations.CreateTable) {
+                    this.schemas[table] = columns.map(column => ({ ...column }));
+                    this.tables[table] = [];
+                } else if (type === MigrationOperations.DropTable) {
+                    delete this.schemas[table];
+                    delete this.tables[table];
+                } else if (type === MigrationOperations.AddColumn) {
+                    this.schemas[table] = [ ...(this.schemas[table] || []), ...columns.map(column => ({ ...column })) ];
+                    for (const row of this.table(table)) for (const name of names) row[name] = null;
+                } else if (type === MigrationOperations.DropColumn) {
+                    this.schemas[table] = (this.schemas[table] || []).filter(column => !names.includes(column.name));
+                    for (const row of this.table(table)) for (const name of names) delete row[name];
+                }
+
+                // Indexes and foreign keys are not enforced
+            }
+        });
+    }
+
+    public async transaction(): Promise<IDatabaseTransaction> {
+        // Check if the statement is part of the running transaction, which would wait for itself
+        if (typeof this.snapshot !== 'undefined')
+            throw new Error(Error.Code.ForbiddenOperation, 'Transactions cannot be nested');
+
+        // Lock the tables until the transaction ends, since they are shared
+        const release = await this.acquire();
+
+        // Keep a copy of the tables and their schemas, in case the transaction is rolled back
+        const adapter: MemoryDatabaseAdapter = Object.create(this);
+        adapter.release = release;
+        adapter.snapshot = {
+            tables: Object.entries(this.tables).reduce((tables, [ source, rows ]) => ({
+                ...tables,
+                [source]: rows.map(row => ({ ...row })),
+            }), {}),
+            schemas: Object.entries(this.schemas).reduce((schemas, [ source, columns ]) => ({
+                ...schemas,
+                [source]: columns.map(column => ({ ...column })),
+            }), {}),
+        };
+
+        return adapter;
+    }
+
+    public async commit(): Promise<void> {
+        this.end();
+    }
+
+    public async rollback(): Promise<void> {
+        // Restore the tables and their schemas
+        const { tables, schemas } = this.end();
+        for (const source of Object.keys(this.tables)) delete this.tables[source];
+        for (const source of Object.keys(this.schemas)) delete this.schemas[source];
+        Object.assign(this.tables, tables);
+        Object.assign(this.schemas, schemas);
+    }
+
+    /**
+     * End the transaction and release the lock
+     */
+    private end(): MemorySnapshot {
+        const snapshot = this.snapshot;
+        if (typeof snapshot === 'undefined')
+            throw new Error(Error.Code.ForbiddenOperation, 'No transaction has been started');
+
+        // Release the lock
+        const release = this.release;
+        this.snapshot = undefined;
+        this.release = undefined;
+        if (typeof release !== 'undefined') release();
+
+        return snapshot;
+    }
+}
@@ -1,92 +1,15 @@
 import mysql from 'mysql';
-import parseUrl from 'parse-url';
-import enforce from 'enforce-js';
+import SQLDatabaseClient, { DatabaseResult, SQLTransactionClient } from '../sql/client';
 import Error from '../../../utils/error';
 import { DatabaseWrite, DatabaseRead } from '../../../utils/constants';
-import { ILogger } from '../../../types/logger';
-import { DatabaseConfig, ConnectionCollection, DatabaseAction } from '../../../types/database';
-import chalk from 'chalk';
-import { ClassId } from '../../../types/class';
-
-export interface DatabaseResult {
-    id: ClassId;
-    rows: object[];
-}
+import { DatabaseAction } from '../../../types/database';
 
-export default class DatabaseClient {
+export default class DatabaseClient extends SQLDatabaseClient {
 
     /**
      * Private propreties
      */
-    private connectionConfigs: ConnectionCollection = { write: [], read: [] };
     private poolCluster: mysql.PoolCluster;
-    private logger: ILogger;
-    private persistent: boolean;
-
-    /**
-     * Constructor
-     * @param {Object} config
-     */
-    constructor({ uris, persistent, logger }: DatabaseConfig) {
-        // Get connection configs
-        for (const uriConfig of uris) {
-            // Check if action is write
-            if (uriConfig.action === DatabaseWrite) {
-                this.connectionConfigs.write.push(this.extractConfig(uriConfig.uri));
-            } else if (uriConfig.action === DatabaseRead) {
-                this.connectionConfigs.read.push(this.extractConfig(uriConfig.uri));
-            } else throw new Error(Error.Code.ForbiddenOperation, `Database action must either be 'write' or 'read'`);
-        }
-
-        // Set connection settings
-        this.persistent = persistent;
-        this.logger = logger;
-    }
-
-    /**
-     * Extract database configuration from URI
-     * @param {Object} config
-     */
-    private extractConfig(uri: string) {
-        const parsedURI = parseUrl(uri);
-        const identity = parsedURI.user.split(':');
-
-        // Get params
-        const params = parsedURI.query;
-
-        const config = {
-            protocol: parsedURI.protocol,
-            host: parsedURI.resource,
-            port: parsedURI.port,
-            user: decodeURIComponent(identity[0]),
-            password: decodeURIComponent(identity[1]),
-            database: parsedURI.pathname.slice(1),
-            ...params,
-        };
-
-        // Enforce
-        enforce`${{ protocol: config.protocol }} as a string`;
-        enforce`${{ host: config.host }} as a string`;
-        enforce`${{ port: config.port }} as a number`;
-        enforce`${{ user: config.user }} as a string`;
-        enforce`${{ password: config.password }} as a string`;
-        enforce`${{ database: config.database }} as a string`;
-
-        return config;
-    }
-
-    public escape(value: any) {
-        // Escape keys
-        return mysql.escape(value);
-    }
-
-    public escapeKey(value: string, useRaw: boolean = false) {
-        if (useRaw) {
-            value = mysql.escapeId(value.replace('.', '$'));
-            return value.replace('$', '.');
-        }
-        return mysql.escapeId(value, useRaw);
-    }
 
     public async initialize(): Promise<void> {
         // If pool is already initialized, skip
@@ -108,14 +31,7 @@ export default class DatabaseClient {
         }
 
         // Test connection
-        const result = await this.query('SELECT 1+1 AS result', DatabaseRead);
-        try {
-            const rows = result['rows'] || [{ result: undefined }];
-            if (rows[0]['result'] === 2) return;
-            else throw new Error(Error.Code.InternalServerError, 'Could not connect to the pool');
-        } catch (err) {
-            throw new Error(Error.Code.InternalServerError, 'Could not connect to the pool');
-        }
+        await this.testConnection();
     }
 
     private async connect(action: DatabaseAction = DatabaseWrite): Promise<mysql.PoolConnection> {
@@ -136,15 +52,20 @@ export default class DatabaseClient {
         }
     }
 
-    public async query(queryString: string, action: DatabaseAction): Promise<DatabaseResult> {
+    private release(connection: mysql.PoolConnection) {
+        // Release or destroy the connection
+        if (this.persistent) connection.release();
+        else connection.destroy();
+    }
+
+    private async run(connection: mysql.PoolConnection, queryString: string, values: any[] = []): Promise<DatabaseResult> {
         // Create promise query method
-        const connection = await this.connect(action);
         const onQuery = new Promise((resolve, reject) => {
             // Display query
-            this.logger.info(chalk.green(queryString));
+            this.log(queryString, values);
 
             // Run the query
-            connection.query(queryString, (err, result) => {
+            connection.query(queryString, values, (err, result) => {
                 if (err) return reject(err);
                 resolve(result);
             });
@@ -154,18 +75,54 @@ export default class DatabaseClient {
             // Await row results
             const rows = await onQuery;
 
-            // Release or destroy the connection
-            if (this.persistent) connection.release();
-            else connection.destroy();
-
             // Prepare result
             let result;
             if (rows instanceof Array) result = { rows };
-            else result = { id: rows['insertId'] };
+            else result = { id: rows['insertId'], affectedRows: rows['affectedRows'] };
 
             return result;
         } catch (err) {
             throw new Error(Error.Code.DatabaseError, `Invalid query request: ${err.message}, ${queryString}`);
         }
     }
-}
\ No newline at end of file
+
+    public async query(queryString: string, action: DatabaseAction, values: any[] = []): Promise<DatabaseResult> {
+        // Get connection
+        const connection = await this.connect(action);
+
+        try {
+            // Run the query
+            return await this.run(connection, queryString, values);
+        } finally {
+            this.release(connection);
+        }
+    }
+
+    public async transaction(): Promise<SQLTransactionClient> {
+        // Pin a write connection
+        const connection = await this.connect(DatabaseWrite);
+
+        // Begin the transaction
+        try {
+            await this.run(connection, 'BEGIN');
+        } catch (err) {
+            this.release(connection);
+            throw err;
+        }
+
+        // Release the connection once the transaction ends
+        const end = async (statement: string) => {
+            try {
+                await this.run(connection, statement);
+            } finally {
+                this.release(connection);
+            }
+        };
+
+        return {
+            query: (queryString, action, values = []) => this.run(connection, queryString, values),
+            commit: () => end('COMMIT'),
+            rollback: () => end('ROLLBACK'),
+        };
+    }
+}
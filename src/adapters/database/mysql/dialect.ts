@@ -0,0 +1,97 @@
+import mysql from 'mysql';
+import SQLDialect from '../sql/dialect';
+import Bindings from '../sql/bindings';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { DatabaseResult } from '../sql/client';
+import { ClassId } from '../../../types/class';
+
+const ColumnTypes = {
+    id: 'INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY',
+    relation: 'INT UNSIGNED',
+    string: 'VARCHAR(255)',
+    number: 'DOUBLE',
+    boolean: 'TINYINT(1)',
+    date: 'DATETIME',
+    json: 'JSON',
+    any: 'TEXT',
+};
+
+export default class MySQLDialect extends SQLDialect {
+
+    /**
+     * The difference between consecutive auto-increment ids, which is `auto_increment_increment`
+     */
+    public autoIncrementStep: number = 1;
+
+    public placeholder(index: number): string {
+        return '?';
+    }
+
+    public escapeKey(value: string, useRaw: boolean = false): string {
+        if (useRaw) {
+            value = mysql.escapeId(value.replace(/\./g, '$'));
+            return value.replace(/\$/g, '.');
+        }
+        return mysql.escapeId(value, useRaw);
+    }
+
+    public concat(keys: string[]): string {
+        return `CONCAT(${keys})`;
+    }
+
+    public pagination(skipped: number, limitation: number, bindings: Bindings): string {
+        return `LIMIT ${bindings.add(skipped)}, ${bindings.add(limitation)}`;
+    }
+
+    public columnType(type: string): string {
+        return ColumnTypes[type] || type;
+    }
+
+    public describe(): string {
+        return 'SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name, COLUMN_TYPE AS data_type '
+            + 'FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() ORDER BY TABLE_NAME, ORDINAL_POSITION';
+    }
+
+    public dropIndex(table: string, index: string): string {
+        return `DROP INDEX ${this.escapeKey(index)} ON ${this.escapeKey(table)}`;
+    }
+
+    public dropForeignKey(table: string, foreignKey: string): string {
+        return `ALTER TABLE ${this.escapeKey(table)} DROP FOREIGN KEY ${this.escapeKey(foreignKey)}`;
+    }
+
+    public upsert(key: string, conflictKeys: string[], assignments: string[]): string {
+        // Conflicts are detected with any unique key, and `LAST_INSERT_ID` reports the id of the existing row
+        const idKey = this.escapeKey(key);
+        return ` ON DUPLICATE KEY UPDATE ${idKey} = LAST_INSERT_ID(${idKey}), ${assignments.join(', ')}`;
+    }
+
+    public insertedIds(result: DatabaseResult, count: number): ClassId[] {
+        // The driver returns the id of the first row, and the rest are apart by `auto_increment_increment`, i.e. in multi-master setups
+        return Array.from({ length: count }, (value, index) => Number(result.id) + index * this.autoIncrementStep);
+    }
+
+    public increment(increment: Increment, bindings: Bindings): string {
+        let escaped = `GREATEST(IFNULL(${this.escapeKey(increment.key)}, 0) + (${bindings.add(increment.value)}), ${increment.min})`;
+        if (typeof increment.max !== 'undefined') escaped = `LEAST(${escaped}, ${increment.max})`;
+        return escaped;
+    }
+
+    public setJson(action: JsonAction, bindings: Bindings): string {
+        const key = `IFNULL(${this.escapeKey(action.key)}, JSON_OBJECT())`;
+        const path = bindings.add(action.path);
+        const value = this.getJsonValue(action.value, bindings);
+        return `JSON_SET(${key}, ${path}, ${value})`;
+    }
+
+    public appendJson(action: JsonAction, bindings: Bindings): string {
+        const key = `IFNULL(${this.escapeKey(action.key)}, JSON_ARRAY())`;
+        const path = bindings.add(action.path);
+        const value = this.getJsonValue(action.value, bindings);
+        return `JSON_ARRAY_APPEND(${key}, ${path}, ${value})`;
+    }
+
+    private getJsonValue(value: any, bindings: Bindings): string {
+        return typeof value === 'object' ? `CAST(${bindings.add(JSON.stringify(value))} AS JSON)` : bindings.add(value);
+    }
+}
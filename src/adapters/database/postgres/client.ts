@@ -0,0 +1,122 @@
+import { Pool, PoolClient, types } from 'pg';
+import SQLDatabaseClient, { DatabaseResult, SQLTransactionClient } from '../sql/client';
+import Error from '../../../utils/error';
+import { DatabaseWrite, DatabaseRead, InternalId } from '../../../utils/constants';
+import { DatabaseAction } from '../../../types/database';
+
+/**
+ * Return timestamps as-is, similar to the format used by `toDatabaseDate`
+ */
+const TimestampTypeId = 1114;
+types.setTypeParser(TimestampTypeId, value => value);
+
+export default class PostgresDatabaseClient extends SQLDatabaseClient {
+
+    /**
+     * Private propreties
+     */
+    private pools: { [action: string]: Pool[] };
+    private cursors: { [action: string]: number } = { [DatabaseWrite]: 0, [DatabaseRead]: 0 };
+
+    public async initialize(): Promise<void> {
+        // If pools are already initialized, skip
+        if (this.pools) return;
+
+        // Prepare pools
+        this.pools = {
+            [DatabaseWrite]: this.connectionConfigs.write.map(config => new Pool(config)),
+            [DatabaseRead]: this.connectionConfigs.read.map(config => new Pool(config)),
+        };
+
+        // Test connection
+        await this.testConnection();
+    }
+
+    private async connect(action: DatabaseAction = DatabaseWrite): Promise<PoolClient> {
+        // Get the pools for the action
+        const pools = this.pools[action];
+        if (pools.length === 0)
+            throw new Error(Error.Code.InternalServerError, `Could not connect to the database: No \`${action}\` connections defined`);
+
+        // Get the next pool, in a round-robin manner
+        const pool = pools[this.cursors[action]++ % pools.length];
+
+        try {
+            // Await on the connection
+            return await pool.connect();
+        } catch (err) {
+            // Throw errors for disconnections
+            throw new Error(Error.Code.InternalServerError, `Could not connect to the database: ${err.message}`);
+        }
+    }
+
+    private release(connection: PoolClient, destroy: boolean) {
+        // Passing an error destroys the connection instead of returning it to the pool
+        connection.release(destroy ? new Error(Error.Code.DatabaseError, 'Connection destroyed') : undefined);
+    }
+
+    private async run(connection: PoolClient, queryString: string, values: any[] = []): Promise<DatabaseResult> {
+        try {
+            // Display query
+            this.log(queryString, values);
+
+            // Run the query
+            const { rows, rowCount } = await connection.query(queryString, values);
+
+            // Prepare result
+            const id = rows.length > 0 ? rows[0][InternalId] : undefined;
+
+            return { id, rows, affectedRows: rowCount };
+        } catch (err) {
+            throw new Error(Error.Code.DatabaseError, `Invalid query request: ${err.message}, ${queryString}`);
+        }
+    }
+
+    public async query(queryString: string, action: DatabaseAction, values: any[] = []): Promise<DatabaseResult> {
+        // Get connection
+        const connection = await this.connect(action);
+
+        try {
+            // Run the query
+            const result = await this.run(connection, queryString, values);
+
+            // Release or destroy the connection
+            this.release(connection, !this.persistent);
+
+            return result;
+        } catch (err) {
+            this.release(connection, true);
+            throw err;
+        }
+    }
+
+    public async transaction(): Promise<SQLTransactionClient> {
+        // Pin a write connection
+        const connection = await this.connect(DatabaseWrite);
+
+        // Begin the transaction
+        try {
+            await this.run(connection, 'BEGIN');
+        } catch (err) {
+            this.release(connection, true);
+            throw err;
+        }
+
+        // Release the connection once the transaction ends
+        const end = async (statement: string) => {
+            try {
+                await this.run(connection, statement);
+                this.release(connection, !this.persistent);
+            } catch (err) {
+                this.release(connection, true);
+                throw err;
+            }
+        };
+
+        return {
+            query: (queryString, action, values = []) => this.run(connection, queryString, values),
+            commit: () => end('COMMIT'),
+            rollback: () => end('ROLLBACK'),
+        };
+    }
+}
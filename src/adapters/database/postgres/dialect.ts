@@ -0,0 +1,114 @@
+import SQLDialect from '../sql/dialect';
+import Bindings from '../sql/bindings';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { toDatabaseDate } from '../../../utils/format';
+import { DatabaseResult } from '../sql/client';
+import { InternalId } from '../../../utils/constants';
+import { ClassId } from '../../../types/class';
+
+const ColumnTypes = {
+    id: 'SERIAL PRIMARY KEY',
+    relation: 'INTEGER',
+    string: 'VARCHAR(255)',
+    number: 'DOUBLE PRECISION',
+    boolean: 'BOOLEAN',
+    date: 'TIMESTAMP',
+    json: 'JSONB',
+    any: 'TEXT',
+};
+
+export default class PostgresDialect extends SQLDialect {
+
+    /**
+     * Use case-insensitive matching, similar to MySQL's default collation
+     */
+    public like: string = 'ILIKE';
+
+    /**
+     * Nulls are larger than other values in Postgres
+     */
+    public nullsLast: boolean = true;
+
+    public placeholder(index: number): string {
+        return `$${index}`;
+    }
+
+    public escapeKey(value: string, useRaw: boolean = false): string {
+        // Split identifiers, unless the key is used as-is
+        const keys = useRaw ? [ value ] : value.split('.');
+        return keys.map(key => `"${key.replace(/"/g, '""')}"`).join('.');
+    }
+
+    public concat(keys: string[]): string {
+        return `CONCAT(${keys.join(', ')})`;
+    }
+
+    public pagination(skipped: number, limitation: number, bindings: Bindings): string {
+        return `LIMIT ${bindings.add(limitation)} OFFSET ${bindings.add(skipped)}`;
+    }
+
+    public columnType(type: string): string {
+        return ColumnTypes[type] || type;
+    }
+
+    public describe(): string {
+        return 'SELECT table_name, column_name, data_type FROM information_schema.columns '
+            + 'WHERE table_schema = current_schema() ORDER BY table_name, ordinal_position';
+    }
+
+    public toParameter(value: any): any {
+        // Store dates in the same format as `toDatabaseDate`
+        if (value instanceof Date) return toDatabaseDate(value.toISOString());
+        else return super.toParameter(value);
+    }
+
+    public returning(key: string): string {
+        return ` RETURNING ${this.escapeKey(key)}`;
+    }
+
+    public insertedIds(result: DatabaseResult, count: number): ClassId[] {
+        // Every inserted row is returned
+        return result.rows.map(row => row[InternalId]);
+    }
+
+    public increment(increment: Increment, bindings: Bindings): string {
+        let escaped = `GREATEST(COALESCE(${this.escapeKey(increment.key)}, 0) + (${bindings.add(increment.value)}), ${increment.min})`;
+        if (typeof increment.max !== 'undefined') escaped = `LEAST(${escaped}, ${increment.max})`;
+        return escaped;
+    }
+
+    public setJson(action: JsonAction, bindings: Bindings): string {
+        const path = this.getJsonPath(action.path);
+        const value = `${bindings.add(JSON.stringify(action.value))}::jsonb`;
+
+        // Setting the root replaces the entire value
+        if (path.length === 0) return value;
+
+        const key = `COALESCE(${this.escapeKey(action.key)}::jsonb, '{}'::jsonb)`;
+        return `jsonb_set(${key}, ${bindings.add(path)}::text[], ${value})`;
+    }
+
+    public appendJson(action: JsonAction, bindings: Bindings): string {
+        const path = this.getJsonPath(action.path);
+        const value = `${bindings.add(JSON.stringify(action.value))}::jsonb`;
+
+        // Appending to the root appends to the entire value
+        if (path.length === 0)
+            return `(COALESCE(${this.escapeKey(action.key)}::jsonb, '[]'::jsonb) || jsonb_build_array(${value}))`;
+
+        const key = `COALESCE(${this.escapeKey(action.key)}::jsonb, '{}'::jsonb)`;
+        const boundPath = `${bindings.add(path)}::text[]`;
+        return `jsonb_set(${key}, ${boundPath}, COALESCE(${key} #> ${boundPath}, '[]'::jsonb) || jsonb_build_array(${value}))`;
+    }
+
+    /**
+     * Convert a MySQL-style json path (i.e. `$.a.b[0]`) into a list of path elements
+     * @param {String} path
+     */
+    private getJsonPath(path: string): string[] {
+        return path.replace(/^\$/, '')
+            .split(/[.\[\]]/)
+            .filter(item => item !== '')
+            .map(item => item.replace(/^"|"$/g, ''));
+    }
+}
@@ -0,0 +1,16 @@
+import Client from './client';
+import PostgresDialect from './dialect';
+import SQLDatabaseAdapter from '../sql';
+import { DatabaseConfig } from '../../../types/database';
+
+export default class PostgresDatabaseAdapter extends SQLDatabaseAdapter {
+
+    /**
+     * Constructor
+     * @param {Object} config
+     */
+    constructor(config: DatabaseConfig) {
+        // Prepare parameters
+        super(new Client(config), new PostgresDialect);
+    }
+}
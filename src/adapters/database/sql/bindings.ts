@@ -0,0 +1,32 @@
+/**
+ * Values bound to the placeholders of a statement
+ */
+export default class Bindings {
+
+    /**
+     * Private properties
+     */
+    private list: any[] = [];
+    private placeholder: (index: number) => string;
+
+    /**
+     * Constructor
+     * @param {Function} placeholder
+     */
+    constructor(placeholder: (index: number) => string) {
+        this.placeholder = placeholder;
+    }
+
+    get values(): any[] {
+        return this.list.slice();
+    }
+
+    /**
+     * Bind a value and get its placeholder
+     * @param {*} value
+     */
+    public add(value: any): string {
+        this.list.push(value);
+        return this.placeholder(this.list.length);
+    }
+}
@@ -0,0 +1,118 @@
+import parseUrl from 'parse-url';
+import chalk from 'chalk';
+import enforce from 'enforce-js';
+import Error from '../../../utils/error';
+import { DatabaseWrite, DatabaseRead } from '../../../utils/constants';
+import { ILogger } from '../../../types/logger';
+import { DatabaseConfig, ConnectionCollection, ConnectionConfig, DatabaseAction } from '../../../types/database';
+import { ClassId } from '../../../types/class';
+
+export interface DatabaseResult {
+    id: ClassId;
+    rows: object[];
+    affectedRows?: number;
+}
+
+export interface SQLTransactionClient {
+    query(queryString: string, action: DatabaseAction, values?: any[]): Promise<DatabaseResult>;
+    commit(): Promise<void>;
+    rollback(): Promise<void>;
+}
+
+export default abstract class SQLDatabaseClient {
+
+    /**
+     * Protected properties
+     */
+    protected connectionConfigs: ConnectionCollection = { write: [], read: [] };
+    protected logger: ILogger;
+    protected persistent: boolean;
+
+    /**
+     * Constructor
+     * @param {Object} config
+     */
+    constructor({ uris, persistent, logger }: DatabaseConfig) {
+        // Get connection configs
+        for (const uriConfig of uris) {
+            // Check if action is write
+            if (uriConfig.action === DatabaseWrite) {
+                this.connectionConfigs.write.push(this.extractConfig(uriConfig.uri));
+            } else if (uriConfig.action === DatabaseRead) {
+                this.connectionConfigs.read.push(this.extractConfig(uriConfig.uri));
+            } else throw new Error(Error.Code.ForbiddenOperation, `Database action must either be 'write' or 'read'`);
+        }
+
+        // Set connection settings
+        this.persistent = persistent;
+        this.logger = logger;
+    }
+
+    /**
+     * Extract database configuration from URI
+     * @param {Object} config
+     */
+    protected extractConfig(uri: string): ConnectionConfig {
+        const parsedURI = parseUrl(uri);
+        const identity = parsedURI.user.split(':');
+
+        // Get params
+        const params = parsedURI.query;
+
+        const config = {
+            protocol: parsedURI.protocol,
+            host: parsedURI.resource,
+            port: parsedURI.port,
+            user: decodeURIComponent(identity[0]),
+            password: decodeURIComponent(identity[1]),
+            database: parsedURI.pathname.slice(1),
+            ...params,
+        };
+
+        // Enforce
+        enforce`${{ protocol: config.protocol }} as a string`;
+        enforce`${{ host: config.host }} as a string`;
+        enforce`${{ port: config.port }} as a number`;
+        enforce`${{ user: config.user }} as a string`;
+        enforce`${{ password: config.password }} as a string`;
+        enforce`${{ database: config.database }} as a string`;
+
+        return config;
+    }
+
+    /**
+     * Test if the connection works
+     */
+    protected async testConnection(): Promise<void> {
+        // Test connection
+        const result = await this.query('SELECT 1+1 AS result', DatabaseRead);
+        try {
+            const rows = result['rows'] || [{ result: undefined }];
+            if (Number(rows[0]['result']) === 2) return;
+            else throw new Error(Error.Code.InternalServerError, 'Could not connect to the pool');
+        } catch (err) {
+            throw new Error(Error.Code.InternalServerError, 'Could not connect to the pool');
+        }
+    }
+
+    /**
+     * Display a statement, separately from its bindings
+     * @param {String} queryString
+     * @param {Array} values
+     */
+    protected log(queryString: string, values: any[]) {
+        this.logger.info(chalk.green(queryString));
+        if (values.length > 0) this.logger.info(chalk.yellow(`Bindings: ${JSON.stringify(values)}`));
+    }
+
+    public abstract initialize(): Promise<void>;
+
+    public abstract query(queryString: string, action: DatabaseAction, values?: any[]): Promise<DatabaseResult>;
+
+    /**
+     * Begin a transaction on a single write connection
+     * @description Every statement of the returned client runs on the same connection,
+     * until it is committed or rolled back
+     */
+    public abstract transaction(): Promise<SQLTransactionClient>;
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import Bindings from './bindings';
+import { DatabaseResult } from './client';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { SetJsonTypeName, AppendJsonTypeName, InternalId } from '../../../utils/constants';
+import { ClassId } from '../../../types/class';
+
+export default abstract class SQLDialect {
+
+    /**
+     * Operator used for pattern matching
+     */
+    public like: string = 'LIKE';
+
+    /**
+     * Maximum number of values that can be bound to a single statement
+     */
+    public maxBindings: number = 65535;
+
+    /**
+     * Whether the driver reports the id of a row that was updated by an upsert
+     */
+    public upsertReturnsId: boolean = true;
+
+    /**
+     * Whether foreign keys can be added to, or dropped from, an existing table
+     */
+    public alterForeignKeys: boolean = true;
+
+    /**
+     * Whether nulls are sorted after other values by default, in which case they are sorted first explicitly
+     * @description Cursors expect nulls to be the smallest values, similar to MySQL and SQLite
+     */
+    public nullsLast: boolean = false;
+
+    /**
+     * Get the placeholder for a bound value
+     * @param {Number} index starts at 1
+     */
+    public abstract placeholder(index: number): string;
+
+    /**
+     * Escape an identifier
+     * @param {String} key
+     * @param {Boolean} useRaw
+     */
+    public abstract escapeKey(key: string, useRaw?: boolean): string;
+
+    /**
+     * Concatenate escaped keys
+     * @param {Array} keys
+     */
+    public abstract concat(keys: string[]): string;
+
+    /**
+     * Generate the pagination clause
+     * @param {Number} skipped
+     * @param {Number} limitation
+     * @param {Bindings} bindings
+     */
+    public abstract pagination(skipped: number, limitation: number, bindings: Bindings): string;
+
+    /**
+     * Generate the expression for an increment
+     * @param {Increment} increment
+     * @param {Bindings} bindings
+     */
+    public abstract increment(increment: Increment, bindings: Bindings): string;
+
+    /**
+     * Generate the expression for setting a json path
+     * @param {JsonAction} action
+     * @param {Bindings} bindings
+     */
+    public abstract setJson(action: JsonAction, bindings: Bindings): string;
+
+    /**
+     * Generate the expression for appending to a json path
+     * @param {JsonAction} action
+     * @param {Bindings} bindings
+     */
+    public abstract appendJson(action: JsonAction, bindings: Bindings): string;
+
+    /**
+     * Get the definition of a column, from the type of its key
+     * @description Types that are not the type of a key are used as-is, i.e. `VARCHAR(64)`
+     * @param {String} type
+     */
+    public abstract columnType(type: string): string;
+
+    /**
+     * Generate the script that lists the columns of every table, as `table_name`, `column_name` and `data_type`
+     */
+    public abstract describe(): string;
+
+    /**
+     * Generate the statement that drops an index
+     * @param {String} table
+     * @param {String} index
+     */
+    public dropIndex(table: string, index: string): string {
+        return `DROP INDEX ${this.escapeKey(index)}`;
+    }
+
+    /**
+     * Generate the statement that drops a foreign key
+     * @param {String} table
+     * @param {String} foreignKey
+     */
+    public dropForeignKey(table: string, foreignKey: string): string {
+        return `ALTER TABLE ${this.escapeKey(table)} DROP CONSTRAINT ${this.escapeKey(foreignKey)}`;
+    }
+
+    /**
+     * Generate the clause that returns the id of an inserted row
+     * @param {String} key
+     */
+    public returning(key: string): string {
+        return '';
+    }
+
+    /**
+     * Generate the clause that updates the existing row, when an inserted row conflicts with it
+     * @param {String} key of the id
+     * @param {Array} conflictKeys escaped
+     * @param {Array} assignments
+     */
+    public upsert(key: string, conflictKeys: string[], assignments: string[]): string {
+        return ` ON CONFLICT (${conflictKeys.join(', ')}) DO UPDATE SET ${assignments.join(', ')}`;
+    }
+
+    /**
+     * Get the ids of the rows inserted by a single statement, in order
+     * @description By default, the driver returns the id of the first row, and the rest are consecutive
+     * @param {DatabaseResult} result
+     * @param {Number} count
+     */
+    public insertedIds(result: DatabaseResult, count: number): ClassId[] {
+        return Array.from({ length: count }, (value, index) => Number(result.id) + index);
+    }
+
+    /**
+     * Convert a value into one that the driver can bind
+     * @param {*} value
+     */
+    public toParameter(value: any): any {
+        if (typeof value === 'undefined') return null;
+        else if (value !== null && typeof value.toSqlString === 'function') return value.toSqlString();
+        else if (value instanceof Date) return value;
+        else if (value !== null && typeof value === 'object') return JSON.stringify(value);
+        else return value;
+    }
+
+    /**
+     * Bind a value, including special types
+     * @param {*} value
+     * @param {Bindings} bindings
+     */
+    public bind(value: any, bindings: Bindings): string {
+        // Check if value is an increment
+        if (value instanceof Increment) return this.increment(value, bindings);
+
+        // Check if value is a json action
+        if (value instanceof JsonAction) {
+            if (value.type === SetJsonTypeName) return this.setJson(value, bindings);
+            else if (value.type === AppendJsonTypeName) return this.appendJson(value, bindings);
+        }
+
+        // Return the placeholder
+        return bindings.add(this.toParameter(value));
+    }
+}
@@ -0,0 +1,780 @@
+import SQLDatabaseClient, { SQLTransactionClient, DatabaseResult } from './client';
+import SQLDialect from './dialect';
+import Bindings from './bindings';
+import DatabaseAdapter from '../adapter';
+import Error from '../../../utils/error';
+import KeyMap from '../../../utils/key-map';
+import {
+    DatabaseWrite,
+    DatabaseRead,
+    SortSymbol,
+    InternalId,
+    CreatedAt,
+    UpdatedAt,
+    DeletedAt,
+    Aggregates,
+    MigrationOperations,
+} from '../../../utils/constants';
+import ConstraintMap, { Constraints, ConstraintObject, ConstraintGroups } from '../../../utils/constraint-map';
+import CompoundKey from '../../../utils/compound-key';
+import {
+    FindClauseOptionsType,
+    AggregateOptionsType,
+    RelatedSubqueryType,
+    AggregateRow,
+    IDatabaseTransaction,
+    DatabaseAction,
+} from '../../../types/database';
+import Relation from '../../../features/orm/relation';
+import Query from '../../../features/orm/query';
+import Class from '../../../features/orm/class';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { ClassId } from '../../../types/class';
+import { TableSchema, MigrationOperation } from '../../../types/migrations';
+
+const { version } = require('../../../package.json');
+
+export default abstract class SQLDatabaseAdapter extends DatabaseAdapter {
+
+    /**
+     * Protected properties
+     */
+    protected client: SQLDatabaseClient;
+    protected dialect: SQLDialect;
+
+    /**
+     * Private properties
+     */
+    private transactionClient?: SQLTransactionClient;
+    private constraints = {
+        [Constraints.EqualTo]: (k, v, b) => `${k} = ${this.regularEscape(v, b)}`,
+        [Constraints.NotEqualTo]: (k, v, b) => `${k} <> ${this.regularEscape(v, b)}`,
+        [Constraints.GreaterThan]: (k, v, b) => `${k} > ${this.regularEscape(v, b)}`,
+        [Constraints.GreaterThanOrEqualTo]: (k, v, b) => `${k} >= ${this.regularEscape(v, b)}`,
+        [Constraints.LessThan]: (k, v, b) => `${k} < ${this.regularEscape(v, b)}`,
+        [Constraints.LessThanOrEqualTo]: (k, v, b) => `${k} <= ${this.regularEscape(v, b)}`,
+        [Constraints.Exists]: (k, v) => `${k} ${v ? 'IS NOT NULL' : 'IS NULL'}`,
+        [Constraints.ContainedIn]: (k, v, b) => `${k} IN (${this.collectionEscape(v, b)})`,
+        [Constraints.NotContainedIn]: (k, v, b) => `${k} NOT IN (${this.collectionEscape(v, b)})`,
+        [Constraints.ContainedInOrDoesNotExist]: (k, v, b) => `(${k} IS NULL OR ${k} IN (${this.collectionEscape(v, b)}))`,
+        [Constraints.StartsWith]: (k, v, b) => `${k} ${this.dialect.like} ${this.regularEscape(`${v}%`, b)}`,
+        [Constraints.EndsWith]: (k, v, b) => `${k} ${this.dialect.like} ${this.regularEscape(`%${v}`, b)}`,
+        [Constraints.Contains]: (k, v, b) => `${k} ${this.dialect.like} ${this.regularEscape(`%${v}%`, b)}`,
+        [Constraints.ContainsEither]: (k, v, b) => `(${v.map(i => `${k} ${this.dialect.like} ${this.regularEscape(`%${i}%`, b)}`).join(' OR ')})`,
+        [Constraints.ContainsAll]: (k, v, b) => `(${v.map(i => `${k} ${this.dialect.like} ${this.regularEscape(`%${i}%`, b)}`).join(' AND ')})`,
+        [Constraints.FoundIn]: (k, v, b) => `${k} IN (${this.subqueryEscape(v, b)})`,
+        [Constraints.FoundInEither]: (k, v, b) => `(${v.map(i => `${k} IN (${this.subqueryEscape(i, b)})`).join(' OR ')})`,
+        [Constraints.FoundInAll]: (k, v, b) => `(${v.map(i => `${k} IN (${this.subqueryEscape(i, b)})`).join(' AND ')})`,
+        [Constraints.NotFoundIn]: (k, v, b) => `${k} NOT IN (${this.subqueryEscape(v, b)})`,
+        [Constraints.NotFoundInEither]: (k, v, b) => `(${v.map(i => `${k} NOT IN (${this.subqueryEscape(i, b)})`).join(' AND ')})`,
+        [Constraints.HasRelated]: (k, v, b) => `EXISTS (${this.relatedSubqueryEscape(v, b)})`,
+        [Constraints.DoesNotHaveRelated]: (k, v, b) => `NOT EXISTS (${this.relatedSubqueryEscape(v, b)})`,
+    };
+
+    /**
+     * Constructor
+     * @param {SQLDatabaseClient} client
+     * @param {SQLDialect} dialect
+     */
+    constructor(client: SQLDatabaseClient, dialect: SQLDialect) {
+        super();
+        this.client = client;
+        this.dialect = dialect;
+    }
+
+    public async initialize() {
+        // Initialize the client
+        await this.client.initialize();
+    }
+
+    /**
+     * Run a statement, using the pinned connection if inside a transaction
+     * @param {String} queryString
+     * @param {String} action
+     * @param {Array} values
+     */
+    protected query(queryString: string, action: DatabaseAction, values: any[]): Promise<DatabaseResult> {
+        if (typeof this.transactionClient !== 'undefined')
+            return this.transactionClient.query(queryString, action, values);
+        else
+            return this.client.query(queryString, action, values);
+    }
+
+    protected escapeKey(key: string, useRaw: boolean = false) {
+        return CompoundKey.isUsedBy(key) ?
+            // If key is a compound key, use concat
+            this.dialect.concat(CompoundKey.from(key).map(k => this.dialect.escapeKey(k)))
+            // Else, do a simple escape
+            : this.dialect.escapeKey(key, useRaw);
+    }
+
+    /**
+     * Create the bindings for a new statement
+     */
+    protected createBindings(): Bindings {
+        return new Bindings(index => this.dialect.placeholder(index));
+    }
+
+    protected regularEscape = (value: any, bindings: Bindings) => {
+        // Return the placeholder of the bound value
+        return this.dialect.bind(value, bindings);
+    }
+
+    protected collectionEscape = (value: any, bindings: Bindings) => {
+        return value.map(item => this.regularEscape(item, bindings)).join(', ');
+    }
+
+    protected subqueryEscape = <T extends typeof Class>(query: Query<T>, bindings: Bindings) => {
+        // Get query keys
+        const { source, columns, relations, constraints } = query.toQueryOptions();
+        return this.getFindClause({ source, columns, relations, constraints }, bindings);
+    }
+
+    protected relatedSubqueryEscape = ({ query, through, correlations }: RelatedSubqueryType, bindings: Bindings) => {
+        // Get query keys
+        const { source, relations, constraints } = query.toQueryOptions();
+
+        // Get from, starting with the pivot table if there is one
+        let from = `${this.escapeKey(source[0])} AS ${this.escapeKey(source[1])}`;
+        if (typeof through !== 'undefined')
+            from = `${this.escapeKey(through.source[0])} AS ${this.escapeKey(through.source[1])}`
+                + ` INNER JOIN ${from} ON ${this.escapeKey(through.on[0])} = ${this.escapeKey(through.on[1])}`;
+
+        // Get where, including the correlations to the parent query
+        const where = [
+            ...this.getWhere(constraints, bindings),
+            ...correlations.map(([ key, parentKey ]) => `${this.escapeKey(key)} = ${this.escapeKey(parentKey)}`),
+        ];
+
+        const whereClause = where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '';
+        return `SELECT 1 FROM ${from} ${this.getJoins(source[1], relations).join('\n')}${whereClause}`;
+    }
+
+    protected parseConstraint(
+        key: string,
+        constraint: string,
+        value: any,
+        bindings: Bindings,
+        escapedKey: string = this.escapeKey(key),
+    ): string {
+        // Check if constraint exists
+        if (typeof this.constraints[constraint] !== 'undefined') {
+            // Return constraint
+            return this.constraints[constraint](escapedKey, value, bindings);
+        }
+
+        // Else, throw an error
+        throw new Error(Error.Code.ForbiddenOperation, `Constraint not found: ${constraint}`);
+    }
+
+    /**
+     * Generate the conditions of a constraint map, which are combined using `AND`
+     * @param {ConstraintMap} constraints
+     * @param {Bindings} bindings
+     * @param {Function} getExpression converts keys into expressions, escapes keys by default
+     */
+    protected getWhere(
+        constraints: ConstraintMap,
+        bindings: Bindings,
+        getExpression: (key: string) => string = key => this.escapeKey(key),
+    ): string[] {
+        // Get key constraints
+        const where = constraints.toArray()
+            .reduce<ConstraintObject[]>((list, keyConstraints) => [ ...list, ...keyConstraints.constraints ], [])
+            .map(({ key, constraint, value }) => this.parseConstraint(key, constraint, value, bindings, getExpression(key)));
+
+        // Get groups, wrapped in parentheses
+        for (const group of constraints.groups) {
+            const operator = group.type === ConstraintGroups.Or ? ' OR ' : ' AND ';
+            const conditions = group.maps.map(map => {
+                const mapWhere = this.getWhere(map, bindings, getExpression);
+                return mapWhere.length > 0 ? `(${mapWhere.join(' AND ')})` : '(1 = 1)';
+            });
+            where.push(`(${conditions.join(operator)})`);
+        }
+
+        return where;
+    }
+
+    /**
+     * Generate the joins of the relations
+     * @param {String} alias of the source
+     * @param {Map} relations
+     */
+    protected getJoins(alias: string, relations: Map<string, Relation>): string[] {
+        const joins: string[] = [];
+        for (const [relationAlias, relation] of relations.entries())
+            joins.push(`LEFT OUTER JOIN ${this.escapeKey(relation.class.source)} AS ${this.escapeKey(relationAlias, true)}`
+                + ` ON ${this.escapeKey(relation.parentClassKey())} = ${this.escapeKey(relation.sourceClassKey(alias))}`);
+
+        return joins;
+    }
+
+    /**
+     * Generate the From, Join and Where clauses
+     * @description Shared by the find and count statements
+     * @param {Array} source
+     * @param {Map} relations
+     * @param {ConstraintMap} constraints
+     * @param {Bindings} bindings shared with subqueries
+     */
+    protected getFromClause(
+        source: [string, string],
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+        bindings: Bindings,
+    ): string {
+        // Get from
+        const from = `${this.escapeKey(source[0])} AS ${this.escapeKey(source[1])}`;
+
+        // Get joins
+        const joins = this.getJoins(source[1], relations);
+
+        // Get where, which is empty for classes without soft deletes and constraints
+        const where = this.getWhere(constraints, bindings);
+        const whereClause = where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '';
+
+        return `FROM ${from} ${joins.join('\n')}${whereClause}`;
+    }
+
+    /**
+     * Generate Find Statement
+     * @description Decoupled from the `find` method
+     * in order to allow subquery select statements
+     * @param {String} source
+     * @param {Array} select
+     * @param {Array} relations
+     * @param {KeyMap} where
+     * @param {Bindings} bindings shared with subqueries
+     */
+    protected getFindClause(
+        { source, columns, relations, constraints }: FindClauseOptionsType,
+        bindings: Bindings,
+    ): string {
+        // Get select
+        const select: string[] = [];
+        for (const [key, alias] of columns.entries())
+            select.push(`${this.escapeKey(key)} AS ${this.escapeKey(alias, true)}`);
+
+        // Prepare clause
+        const findClause = `SELECT ${select.join(', ')} ${this.getFromClause(source, relations, constraints, bindings)}`;
+
+        return findClause;
+    }
+
+    /**
+     * Generate Sorting
+     * @param {String} className
+     * @param {Array} sort
+     */
+    protected getSortClause(className: string, sort: string[]): string {
+        // Return sorting string
+        return sort.map(keySort => {
+            // If it starts with a hyphen, sort by descending order
+            // Otherwise, sort by ascending order
+            if (keySort[0] === SortSymbol)
+                return `${this.escapeKey(keySort.slice(1))} DESC${this.dialect.nullsLast ? ' NULLS LAST' : ''}`;
+            else
+                return `${this.escapeKey(keySort)} ASC${this.dialect.nullsLast ? ' NULLS FIRST' : ''}`;
+        }).join(', ');
+    }
+
+    /**
+     * Generate the assignments for an update
+     * @param {KeyMap} keys
+     * @param {Bindings} bindings
+     */
+    protected getAssignments(keys: KeyMap, bindings: Bindings): string[] {
+        return keys.toArray().reduce((input, [ key, value ]) => ([
+            ...input,
+            `${this.dialect.escapeKey(key)} = ${this.regularEscape(value, bindings)}`,
+        ]), []);
+    }
+
+    /**
+     * Split items into chunks, so that each statement stays within the binding limit of the dialect
+     * @param {Array} items
+     * @param {Number} bindingsPerItem
+     * @param {Number} reservedBindings used by the rest of the statement
+     */
+    protected chunk<T>(items: T[], bindingsPerItem: number, reservedBindings: number = 0): T[][] {
+        const size = Math.max(1, Math.floor((this.dialect.maxBindings - reservedBindings) / Math.max(1, bindingsPerItem)));
+        const chunks: T[][] = [];
+        for (let index = 0; index < items.length; index += size) chunks.push(items.slice(index, index + size));
+        return chunks;
+    }
+
+    /**
+     * Qualify the keys of increments and json actions with the table name
+     * @description In upserts, unqualified keys could also refer to the inserted row
+     * @param {String} source
+     * @param {KeyMap} keys
+     */
+    protected qualifySpecials(source: string, keys: KeyMap): KeyMap {
+        return new KeyMap(keys.toArray().reduce((qualified, [ key, value ]) => {
+            const qualifiedKey = Relation.formatKey(source, key);
+            if (value instanceof Increment) qualified[key] = new Increment(qualifiedKey, value.value, value.min, value.max);
+            else if (value instanceof JsonAction) qualified[key] = new JsonAction(value.type, qualifiedKey, value.path, value.value);
+            else qualified[key] = value;
+            return qualified;
+        }, {}));
+    }
+
+    /**
+     * Generate the statements of a migration operation
+     * @param {Object} operation
+     */
+    protected getMigrationScripts({ type, table, columns = [], index, foreignKey }: MigrationOperation): string[] {
+        // Prepare table and columns
+        const tableKey = this.dialect.escapeKey(table);
+        const definitions = columns.map(column => `${this.dialect.escapeKey(column.name)} ${this.dialect.columnType(column.type)}`);
+
+        if (type === MigrationOperations.CreateTable)
+            return [ `CREATE TABLE ${tableKey} (${definitions.join(', ')})` ];
+        else if (type === MigrationOperations.DropTable)
+            return [ `DROP TABLE ${tableKey}` ];
+        else if (type === MigrationOperations.AddColumn)
+            return definitions.map(definition => `ALTER TABLE ${tableKey} ADD COLUMN ${definition}`);
+        else if (type === MigrationOperations.DropColumn)
+            return columns.map(column => `ALTER TABLE ${tableKey} DROP COLUMN ${this.dialect.escapeKey(column.name)}`);
+        else if (type === MigrationOperations.AddIndex && typeof index !== 'undefined')
+            return [ `CREATE INDEX ${this.dialect.escapeKey(index.name)} ON ${tableKey} (${index.columns.map(column => this.dialect.escapeKey(column)).join(', ')})` ];
+        else if (type === MigrationOperations.DropIndex && typeof index !== 'undefined')
+            return [ this.dialect.dropIndex(table, index.name) ];
+        else if (type === MigrationOperations.AddForeignKey && typeof foreignKey !== 'undefined') {
+            // Skip foreign keys, if the dialect cannot add them to existing tables
+            if (!this.dialect.alterForeignKeys) return [];
+            const [ referencedTable, referencedColumn ] = foreignKey.references;
+            return [ `ALTER TABLE ${tableKey} ADD CONSTRAINT ${this.dialect.escapeKey(foreignKey.name)} `
+                + `FOREIGN KEY (${this.dialect.escapeKey(foreignKey.column)}) `
+                + `REFERENCES ${this.dialect.escapeKey(referencedTable)} (${this.dialect.escapeKey(referencedColumn)})` ];
+        } else if (type === MigrationOperations.DropForeignKey && typeof foreignKey !== 'undefined')
+            return this.dialect.alterForeignKeys ? [ this.dialect.dropForeignKey(table, foreignKey.name) ] : [];
+        else throw new Error(Error.Code.ForbiddenOperation, `Migration operation \`${type}\` on \`${table}\` is invalid`);
+    }
+
+    /**
+     * Map row keys into appropriate relations
+     * @param {Object} row
+     */
+    protected mapRows(row: object): KeyMap {
+        // Prepare key map
+        const keys = new KeyMap;
+
+        // Iterate through the row's keys
+        for (const [ key, value ] of Object.entries(row)) {
+            // If key is for a relation
+            if (Relation.isUsedBy(key)) {
+                // Prepare relation parameters
+                const [ relationName, relationKey ] = Relation.parseKey(key);
+
+                // Assign relation, including nested relations
+                const relation = Relation.assignKey(keys.get(relationName), relationKey, value);
+
+                // Set key to the latest value
+                keys.set(relationName, relation);
+            } else {
+                // Set the key value
+                keys.set(key, row[key]);
+            }
+        }
+
+        // Return the key map
+        return keys;
+    }
+
+    public async find(
+        source: [string, string],
+        columns: Map<string, string>,
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+        sorting: string[],
+        skipped: number,
+        limitation: number,
+        action: DatabaseAction = DatabaseRead,
+    ): Promise<KeyMap[]> {
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Generate find clause
+        const findClause = this.getFindClause({ source, columns, relations, constraints }, bindings);
+
+        // Generate sorting clause
+        const sortingClause = this.getSortClause(source[1], sorting);
+
+        // Generate pagination clause
+        const paginationClause = this.dialect.pagination(skipped, limitation, bindings);
+
+        // Prepare script
+        const selectScript = `${findClause} ORDER BY ${sortingClause} ${paginationClause}; -- Warp Server ${version}`;
+
+        // Get result
+        const result = await this.query(selectScript, action, bindings.values);
+
+        // Map rows
+        const rows: KeyMap[] = [];
+        for (const row of result.rows) {
+            const item = this.mapRows(row);
+            rows.push(item);
+        }
+
+        // Return result as an array of KeyMaps
+        return rows;
+    }
+
+    public async count(
+        source: [string, string],
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+    ): Promise<number> {
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Prepare script
+        const countScript = `SELECT COUNT(*) AS ${this.dialect.escapeKey('count')} `
+            + `${this.getFromClause(source, relations, constraints, bindings)}; -- Warp Server ${version}`;
+
+        // Get result
+        const result = await this.query(countScript, DatabaseRead, bindings.values);
+
+        // Return the count, since some drivers return it as a string
+        const [ row ] = result.rows;
+        return Number(row['count']);
+    }
+
+    public async aggregate({
+        source,
+        aggregates,
+        groupings,
+        relations,
+        constraints,
+        having,
+        sorting,
+        skipped,
+        limitation,
+    }: AggregateOptionsType): Promise<AggregateRow[]> {
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get the expressions of the selected aliases
+        const expressions: Map<string, string> = new Map;
+        for (const [ key, alias ] of groupings.entries())
+            expressions.set(alias, this.escapeKey(key));
+        for (const [ alias, { type, key } ] of aggregates.entries())
+            expressions.set(alias, `${type.toUpperCase()}(${this.escapeKey(key)})`);
+
+        // Get select
+        const select: string[] = [];
+        for (const [ alias, expression ] of expressions.entries())
+            select.push(`${expression} AS ${this.escapeKey(alias, true)}`);
+
+        // Get from, group and having clauses
+        const fromClause = this.getFromClause(source, relations, constraints, bindings);
+        const groupClause = groupings.size > 0 ? ` GROUP BY ${[ ...groupings.keys() ].map(key => this.escapeKey(key)).join(', ')}` : '';
+        const havingWhere = this.getWhere(having, bindings, key => expressions.get(key) || this.escapeKey(key));
+        const havingClause = havingWhere.length > 0 ? ` HAVING ${havingWhere.join(' AND ')}` : '';
+
+        // Generate sorting clause
+        const sortingClause = sorting.length > 0 ? ` ORDER BY ${this.getSortClause(source[1], sorting)}` : '';
+
+        // Generate pagination clause
+        const paginationClause = this.dialect.pagination(skipped, limitation, bindings);
+
+        // Prepare script
+        const aggregateScript = `SELECT ${select.join(', ')} ${fromClause}${groupClause}${havingClause}${sortingClause} `
+            + `${paginationClause}; -- Warp Server ${version}`;
+
+        // Get result
+        const result = await this.query(aggregateScript, DatabaseRead, bindings.values);
+
+        // Convert numeric aggregates, since some drivers return them as strings
+        return result.rows.map(row => {
+            for (const [ alias, { type } ] of aggregates.entries()) {
+                if (type === Aggregates.Minimum || type === Aggregates.Maximum || row[alias] === null) continue;
+                row[alias] = Number(row[alias]);
+            }
+            return row;
+        });
+    }
+
+    public async create(source: string, keys: KeyMap): Promise<ClassId> {
+        // Add timestamps
+        const now = this.currentTimestamp;
+        keys.set(CreatedAt, now);
+        keys.set(UpdatedAt, now);
+
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get inputKeys
+        const sqlInputKeys = keys.keys.map(key => this.dialect.escapeKey(key));
+        const sqlInputValues = keys.values.map(value => this.regularEscape(value, bindings));
+
+        // Prepare script
+        const createScript = `INSERT INTO ${this.dialect.escapeKey(source)} (${sqlInputKeys.join(', ')}) `
+            + `VALUES (${sqlInputValues.join(', ')})${this.dialect.returning(InternalId)}; -- Warp Server ${version}`;
+
+        // Create the item and get id
+        const result = await this.query(createScript, DatabaseWrite, bindings.values);
+
+        // Return the id
+        return result.id;
+    }
+
+    public async createMany(source: string, rows: KeyMap[]): Promise<ClassId[]> {
+        // Check if there is anything to create
+        if (rows.length === 0) return [];
+
+        // Add timestamps
+        const now = this.currentTimestamp;
+        for (const row of rows) {
+            row.set(CreatedAt, now);
+            row.set(UpdatedAt, now);
+        }
+
+        // Get the keys from the first row, which every row shares
+        const keys = rows[0].keys;
+        const sqlInputKeys = keys.map(key => this.dialect.escapeKey(key));
+
+        // Create the items in chunks, and get their ids in order
+        const ids: ClassId[] = [];
+        for (const chunk of this.chunk(rows, keys.length)) {
+            // Prepare bindings
+            const bindings = this.createBindings();
+
+            // Get the values of every row
+            const sqlInputValues = chunk.map(row => `(${keys.map(key => this.regularEscape(row.get(key), bindings)).join(', ')})`);
+
+            // Prepare script
+            const createScript = `INSERT INTO ${this.dialect.escapeKey(source)} (${sqlInputKeys.join(', ')}) `
+                + `VALUES ${sqlInputValues.join(', ')}${this.dialect.returning(InternalId)}; -- Warp Server ${version}`;
+
+            // Create the items and get their ids
+            const result = await this.query(createScript, DatabaseWrite, bindings.values);
+            ids.push(...this.dialect.insertedIds(result, chunk.length));
+        }
+
+        // Return the ids
+        return ids;
+    }
+
+    public async upsert(source: string, keys: KeyMap, conflictKeys: string[], updateKeys: KeyMap): Promise<ClassId> {
+        // Add timestamps
+        const now = this.currentTimestamp;
+        keys.set(CreatedAt, now);
+        keys.set(UpdatedAt, now);
+        updateKeys.set(UpdatedAt, now);
+
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get inputKeys
+        const sqlInputKeys = keys.keys.map(key => this.dialect.escapeKey(key));
+        const sqlInputValues = keys.values.map(value => this.regularEscape(value, bindings));
+
+        // Get the assignments for the existing row
+        const sqlConflictKeys = conflictKeys.map(key => this.dialect.escapeKey(key));
+        const sqlAssignments = this.getAssignments(this.qualifySpecials(source, updateKeys), bindings);
+
+        // Prepare script
+        const upsertScript = `INSERT INTO ${this.dialect.escapeKey(source)} (${sqlInputKeys.join(', ')}) `
+            + `VALUES (${sqlInputValues.join(', ')})${this.dialect.upsert(InternalId, sqlConflictKeys, sqlAssignments)}`
+            + `${this.dialect.returning(InternalId)}; -- Warp Server ${version}`;
+
+        // Create or update the item
+        const result = await this.query(upsertScript, DatabaseWrite, bindings.values);
+        if (this.dialect.upsertReturnsId) return result.id;
+
+        // Otherwise, find the id using the conflict keys
+        const selectBindings = this.createBindings();
+        const where = conflictKeys.map(key => `${this.dialect.escapeKey(key)} = ${this.regularEscape(keys.get(key), selectBindings)}`);
+        const selectScript = `SELECT ${this.dialect.escapeKey(InternalId)} FROM ${this.dialect.escapeKey(source)} `
+            + `WHERE ${where.join(' AND ')}; -- Warp Server ${version}`;
+
+        // Read from the write connection, which has the latest row
+        const { rows } = await this.query(selectScript, DatabaseWrite, selectBindings.values);
+        return rows[0][InternalId];
+    }
+
+    public async update(source: string, keys: KeyMap, id: ClassId, conditions: KeyMap = new KeyMap): Promise<number> {
+        // Prepare id
+        const idKey = this.dialect.escapeKey(InternalId);
+
+        // Add timestamps
+        const now = this.currentTimestamp;
+        keys.set(UpdatedAt, now);
+
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get sql input
+        const sqlInput = this.getAssignments(keys, bindings);
+
+        // Get where, binding the id so it is never part of the statement
+        const where = [
+            `${idKey} = ${bindings.add(id)}`,
+            ...conditions.toArray().map(([ key, value ]) => `${this.dialect.escapeKey(key)} = ${this.regularEscape(value, bindings)}`),
+        ];
+
+        // Prepare script
+        const updateScript = `UPDATE ${this.dialect.escapeKey(source)} SET ${sqlInput.join(', ')} WHERE ${where.join(' AND ')}; -- Warp Server ${version}`;
+
+        // Update the item
+        const result = await this.query(updateScript, DatabaseWrite, bindings.values);
+        return result.affectedRows || 0;
+    }
+
+    public async updateMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<number> {
+        // Check if there is anything to update
+        if (ids.length === 0) return 0;
+
+        // Prepare id
+        const idKey = this.dialect.escapeKey(InternalId);
+
+        // Add timestamps
+        const now = this.currentTimestamp;
+        keys.set(UpdatedAt, now);
+
+        // Update the items in chunks, binding the ids so they are never part of the statement
+        let updated = 0;
+        for (const chunk of this.chunk(ids, 1, keys.keys.length)) {
+            // Prepare bindings
+            const bindings = this.createBindings();
+
+            // Get sql input
+            const sqlInput = this.getAssignments(keys, bindings);
+
+            // Prepare script
+            const updateScript = `UPDATE ${this.dialect.escapeKey(source)} SET ${sqlInput.join(', ')} `
+                + `WHERE ${idKey} IN (${chunk.map(id => bindings.add(id)).join(', ')}); -- Warp Server ${version}`;
+
+            // Update the items
+            const result = await this.query(updateScript, DatabaseWrite, bindings.values);
+            updated += result.affectedRows || 0;
+        }
+
+        // Return the number of updated items
+        return updated;
+    }
+
+    public async destroy(source: string, keys: KeyMap, id: ClassId): Promise<void> {
+        await this.destroyMany(source, keys, [ id ]);
+    }
+
+    public async destroyMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<void> {
+        // Add the deletion timestamp, along with the update timestamp
+        keys.set(DeletedAt, this.currentTimestamp);
+
+        // Update the items
+        await this.updateMany(source, keys, ids);
+    }
+
+    public async forceDestroy(source: string, id: ClassId): Promise<void> {
+        await this.forceDestroyMany(source, [ id ]);
+    }
+
+    public async forceDestroyMany(source: string, ids: ClassId[]): Promise<void> {
+        // Check if there is anything to delete
+        if (ids.length === 0) return;
+
+        // Prepare id
+        const idKey = this.dialect.escapeKey(InternalId);
+
+        // Delete the items in chunks
+        for (const chunk of this.chunk(ids, 1)) {
+            // Prepare bindings
+            const bindings = this.createBindings();
+
+            // Prepare script, which removes the items permanently
+            const forceDestroyScript = `DELETE FROM ${this.dialect.escapeKey(source)} `
+                + `WHERE ${idKey} IN (${chunk.map(id => bindings.add(id)).join(', ')}); -- Warp Server ${version}`;
+
+            // Delete the items
+            await this.query(forceDestroyScript, DatabaseWrite, bindings.values);
+        }
+    }
+
+    public async attach(through: string, rows: KeyMap[]): Promise<void> {
+        // Check if there is anything to attach
+        if (rows.length === 0) return;
+
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get the keys from the first row, and the values of every row
+        const keys = rows[0].keys;
+        const sqlInputKeys = keys.map(key => this.dialect.escapeKey(key));
+        const sqlInputValues = rows.map(row => `(${keys.map(key => this.regularEscape(row.get(key), bindings)).join(', ')})`);
+
+        // Prepare script
+        const attachScript = `INSERT INTO ${this.dialect.escapeKey(through)} (${sqlInputKeys.join(', ')}) `
+            + `VALUES ${sqlInputValues.join(', ')}; -- Warp Server ${version}`;
+
+        // Insert the links
+        await this.query(attachScript, DatabaseWrite, bindings.values);
+    }
+
+    public async detach(through: string, constraints: ConstraintMap): Promise<void> {
+        // Prepare bindings
+        const bindings = this.createBindings();
+
+        // Get where, which is omitted when there are no constraints
+        const where = this.getWhere(constraints, bindings);
+        const whereClause = where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '';
+
+        // Prepare script, which removes the links permanently
+        const detachScript = `DELETE FROM ${this.dialect.escapeKey(through)}${whereClause}; -- Warp Server ${version}`;
+
+        // Delete the links
+        await this.query(detachScript, DatabaseWrite, bindings.values);
+    }
+
+    public async describe(): Promise<TableSchema[]> {
+        // Get the columns of every table, from the write connection so that recent migrations are included
+        const result = await this.query(`${this.dialect.describe()}; -- Warp Server ${version}`, DatabaseWrite, []);
+
+        // Group the columns by table, in order
+        const tables = new Map<string, TableSchema>();
+        for (const row of result.rows) {
+            const name = row['table_name'];
+            const table: TableSchema = tables.get(name) || { name, columns: [] };
+            table.columns.push({ name: row['column_name'], type: row['data_type'] });
+            tables.set(name, table);
+        }
+
+        return [ ...tables.values() ];
+    }
+
+    public async migrate(operations: MigrationOperation[]): Promise<void> {
+        // Generate every statement first, so that invalid operations are not partially run
+        const scripts = operations.reduce((list, operation) => [ ...list, ...this.getMigrationScripts(operation) ], []);
+
+        // Run the statements in order
+        for (const script of scripts) await this.query(`${script}; -- Warp Server ${version}`, DatabaseWrite, []);
+    }
+
+    public async transaction(): Promise<IDatabaseTransaction> {
+        // Pin a write connection
+        const transactionClient = await this.client.transaction();
+
+        // Share the adapter, but run its statements on the pinned connection
+        const adapter: SQLDatabaseAdapter = Object.create(this);
+        adapter.transactionClient = transactionClient;
+
+        return adapter;
+    }
+
+    public async commit(): Promise<void> {
+        await this.getTransactionClient().commit();
+    }
+
+    public async rollback(): Promise<void> {
+        await this.getTransactionClient().rollback();
+    }
+
+    private getTransactionClient(): SQLTransactionClient {
+        if (typeof this.transactionClient === 'undefined')
+            throw new Error(Error.Code.ForbiddenOperation, 'No transaction has been started');
+        return this.transactionClient;
+    }
+}
@@ -0,0 +1,157 @@
+import { Database } from 'sqlite3';
+import SQLDatabaseClient, { DatabaseResult, SQLTransactionClient } from '../sql/client';
+import Error from '../../../utils/error';
+import { DatabaseWrite } from '../../../utils/constants';
+import { DatabaseAction, ConnectionConfig } from '../../../types/database';
+
+export default class SQLiteDatabaseClient extends SQLDatabaseClient {
+
+    /**
+     * Private propreties
+     */
+    private databases: { [filename: string]: Database };
+    private locks: { [filename: string]: Promise<void> } = {};
+
+    /**
+     * Extract the database file from the URI
+     * @description Supports `sqlite://path/to/file.db`, `sqlite:///absolute/path/to/file.db` and `sqlite::memory:`
+     * @param {String} uri
+     */
+    protected extractConfig(uri: string): ConnectionConfig {
+        // Remove the protocol
+        const filename = uri.replace(/^sqlite:(\/\/)?/, '');
+
+        // Check if file is provided
+        if (filename.length === 0)
+            throw new Error(Error.Code.MissingConfiguration, 'SQLite database file must be provided, i.e. `sqlite://path/to/file.db`');
+
+        return {
+            protocol: 'sqlite',
+            host: '',
+            port: 0,
+            user: '',
+            password: '',
+            database: filename,
+        };
+    }
+
+    public async initialize(): Promise<void> {
+        // If databases are already initialized, skip
+        if (this.databases) return;
+
+        // Open each file once, so read and write connections share the same database
+        this.databases = {};
+        for (const config of [ ...this.connectionConfigs.write, ...this.connectionConfigs.read ]) {
+            if (typeof this.databases[config.database] !== 'undefined') continue;
+            this.databases[config.database] = await this.open(config.database);
+        }
+
+        // Test connection
+        await this.testConnection();
+    }
+
+    private open(filename: string): Promise<Database> {
+        // Load the driver only when needed, since it is a native module
+        const sqlite3 = require('sqlite3');
+
+        return new Promise((resolve, reject) => {
+            const database: Database = new sqlite3.Database(filename, err => {
+                if (err) return reject(new Error(Error.Code.InternalServerError, `Could not connect to the database: ${err.message}`));
+                resolve(database);
+            });
+        });
+    }
+
+    private getFilename(action: DatabaseAction): string {
+        // Get the first file for the action
+        const [ config ] = this.connectionConfigs[action];
+        if (typeof config === 'undefined')
+            throw new Error(Error.Code.InternalServerError, `Could not connect to the database: No \`${action}\` connections defined`);
+
+        return config.database;
+    }
+
+    /**
+     * Wait for the previous holder of the lock of a file, then hold it until released
+     * @description Connections are shared, so statements outside of a transaction must not run in between its statements.
+     * Each caller is chained to the previous one before waiting, so only one of them holds the lock at a time
+     * @param {String} filename
+     */
+    private async acquire(filename: string): Promise<() => void> {
+        const previous = this.locks[filename] || Promise.resolve();
+        let release: () => void = () => undefined;
+        this.locks[filename] = new Promise(resolve => release = resolve);
+        await previous;
+        return release;
+    }
+
+    private run(database: Database, queryString: string, values: any[] = []): Promise<DatabaseResult> {
+        const isSelect = /^\s*SELECT\b/i.test(queryString);
+        const onQuery: Promise<DatabaseResult> = new Promise((resolve, reject) => {
+            // Display query
+            this.log(queryString, values);
+
+            // Run the query, selects return rows while other statements return the inserted id
+            if (isSelect) {
+                database.all(queryString, values, (err, rows) => {
+                    if (err) return reject(err);
+                    resolve({ rows } as DatabaseResult);
+                });
+            } else {
+                database.run(queryString, values, function(err) {
+                    if (err) return reject(err);
+                    resolve({ id: this.lastID, rows: [], affectedRows: this.changes });
+                });
+            }
+        });
+
+        return onQuery.catch(err => {
+            throw new Error(Error.Code.DatabaseError, `Invalid query request: ${err.message}, ${queryString}`);
+        });
+    }
+
+    public async query(queryString: string, action: DatabaseAction, values: any[] = []): Promise<DatabaseResult> {
+        // Get database
+        const filename = this.getFilename(action);
+        const release = await this.acquire(filename);
+
+        // Run the query
+        try {
+            return await this.run(this.databases[filename], queryString, values);
+        } finally {
+            release();
+        }
+    }
+
+    public async transaction(): Promise<SQLTransactionClient> {
+        // Get database
+        const filename = this.getFilename(DatabaseWrite);
+        const database = this.databases[filename];
+
+        // Lock the file until the transaction ends
+        const release = await this.acquire(filename);
+
+        // Begin the transaction
+        try {
+            await this.run(database, 'BEGIN');
+        } catch (err) {
+            release();
+            throw err;
+        }
+
+        // Release the lock once the transaction ends
+        const end = async (statement: string) => {
+            try {
+                await this.run(database, statement);
+            } finally {
+                release();
+            }
+        };
+
+        return {
+            query: (queryString, action, values = []) => this.run(database, queryString, values),
+            commit: () => end('COMMIT'),
+            rollback: () => end('ROLLBACK'),
+        };
+    }
+}
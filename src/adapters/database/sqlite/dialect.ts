@@ -0,0 +1,101 @@
+import SQLDialect from '../sql/dialect';
+import Bindings from '../sql/bindings';
+import { Increment, JsonAction } from '../../../features/orm/specials';
+import { toDatabaseDate } from '../../../utils/format';
+import { DatabaseResult } from '../sql/client';
+import { ClassId } from '../../../types/class';
+
+const ColumnTypes = {
+    id: 'INTEGER PRIMARY KEY AUTOINCREMENT',
+    relation: 'INTEGER',
+    string: 'VARCHAR(255)',
+    number: 'REAL',
+    boolean: 'INTEGER',
+    date: 'DATETIME',
+    json: 'TEXT',
+    any: 'TEXT',
+};
+
+export default class SQLiteDialect extends SQLDialect {
+
+    /**
+     * Default limit of versions prior to SQLite 3.32.0
+     */
+    public maxBindings: number = 999;
+
+    /**
+     * The last inserted id is unchanged when an upsert updates a row
+     */
+    public upsertReturnsId: boolean = false;
+
+    /**
+     * Foreign keys can only be declared when a table is created
+     */
+    public alterForeignKeys: boolean = false;
+
+    public placeholder(index: number): string {
+        return '?';
+    }
+
+    public escapeKey(value: string, useRaw: boolean = false): string {
+        // Split identifiers, unless the key is used as-is
+        const keys = useRaw ? [ value ] : value.split('.');
+        return keys.map(key => `"${key.replace(/"/g, '""')}"`).join('.');
+    }
+
+    public concat(keys: string[]): string {
+        return `(${keys.join(' || ')})`;
+    }
+
+    public pagination(skipped: number, limitation: number, bindings: Bindings): string {
+        return `LIMIT ${bindings.add(limitation)} OFFSET ${bindings.add(skipped)}`;
+    }
+
+    public columnType(type: string): string {
+        return ColumnTypes[type] || type;
+    }
+
+    public describe(): string {
+        return 'SELECT tables.name AS table_name, columns.name AS column_name, columns.type AS data_type '
+            + 'FROM sqlite_master AS tables JOIN pragma_table_info(tables.name) AS columns '
+            + `WHERE tables.type = 'table' AND tables.name NOT LIKE 'sqlite_%' ORDER BY tables.name, columns.cid`;
+    }
+
+    public insertedIds(result: DatabaseResult, count: number): ClassId[] {
+        // The driver returns the id of the last row
+        return Array.from({ length: count }, (value, index) => Number(result.id) - count + 1 + index);
+    }
+
+    public toParameter(value: any): any {
+        // Store dates in the same format as `toDatabaseDate`
+        if (value instanceof Date) return toDatabaseDate(value.toISOString());
+        else if (typeof value === 'boolean') return value ? 1 : 0;
+        else return super.toParameter(value);
+    }
+
+    public increment(increment: Increment, bindings: Bindings): string {
+        // Use the scalar `MAX` and `MIN` functions in place of `GREATEST` and `LEAST`
+        let escaped = `MAX(IFNULL(${this.escapeKey(increment.key)}, 0) + (${bindings.add(increment.value)}), ${increment.min})`;
+        if (typeof increment.max !== 'undefined') escaped = `MIN(${escaped}, ${increment.max})`;
+        return escaped;
+    }
+
+    public setJson(action: JsonAction, bindings: Bindings): string {
+        const key = `IFNULL(${this.escapeKey(action.key)}, json_object())`;
+        const path = bindings.add(action.path);
+        const value = this.getJsonValue(action.value, bindings);
+        return `json_set(${key}, ${path}, ${value})`;
+    }
+
+    public appendJson(action: JsonAction, bindings: Bindings): string {
+        // Set the value at the index after the last item of the array
+        const key = `IFNULL(${this.escapeKey(action.key)}, json_array())`;
+        const path = `${bindings.add(`${action.path}[`)} || json_array_length(${key}, ${bindings.add(action.path)}) || ']'`;
+        const value = this.getJsonValue(action.value, bindings);
+        return `json_set(${key}, ${path}, ${value})`;
+    }
+
+    private getJsonValue(value: any, bindings: Bindings): string {
+        return typeof value === 'object' ? `json(${bindings.add(JSON.stringify(value))})` : bindings.add(value);
+    }
+}
@@ -0,0 +1,16 @@
+import Client from './client';
+import SQLiteDialect from './dialect';
+import SQLDatabaseAdapter from '../sql';
+import { DatabaseConfig } from '../../../types/database';
+
+export default class SQLiteDatabaseAdapter extends SQLDatabaseAdapter {
+
+    /**
+     * Constructor
+     * @param {Object} config
+     */
+    constructor(config: DatabaseConfig) {
+        // Prepare parameters
+        super(new Client(config), new SQLiteDialect);
+    }
+}
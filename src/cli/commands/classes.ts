@@ -0,0 +1,37 @@
+import chalk from 'chalk';
+import Warp from '../../index';
+import { ClassDefinitionManager } from '../../features/orm/class';
+import { Command } from '../../types/cli';
+
+/**
+ * List the registered classes and their keys
+ */
+const classes: Command = async (api: Warp) => {
+    for (const classType of api.classes.all()) {
+        // Get definition
+        const definition = ClassDefinitionManager.get(classType);
+        const source = classType.source !== classType.className ? chalk.gray(` (${classType.source})`) : '';
+        console.log(`${chalk.bold(classType.className)}${source}`);
+
+        // Display keys, along with their modifiers
+        for (const key of definition.keys) {
+            const relation = definition.relations[key];
+            const type = typeof relation !== 'undefined' ? relation.toRelation().class.className : definition.types[key] || 'any';
+            const modifiers = [
+                definition.hidden.includes(key) ? 'hidden' : '',
+                definition.guarded.includes(key) ? 'guarded' : '',
+                definition.computed.includes(key) ? 'computed' : '',
+                definition.version === key ? 'version' : '',
+            ].filter(modifier => modifier.length > 0);
+            console.log(`  ${key}: ${chalk.cyan(type)}${modifiers.length > 0 ? chalk.gray(` [${modifiers.join(', ')}]`) : ''}`);
+        }
+
+        // Display collections
+        for (const [ key, hasMany ] of Object.entries(definition.hasMany))
+            console.log(`  ${key}: ${chalk.cyan(`${hasMany.class.className}[]`)}`);
+        for (const [ key, belongsToMany ] of Object.entries(definition.belongsToMany))
+            console.log(`  ${key}: ${chalk.cyan(`${belongsToMany.class.className}[]`)}${chalk.gray(` (through ${belongsToMany.through})`)}`);
+    }
+};
+
+export default classes;
@@ -0,0 +1,26 @@
+import repl from 'repl';
+import Warp from '../../index';
+import Class from '../../features/orm/class';
+import Query from '../../features/orm/query';
+import { toPascalCase } from '../../utils/format';
+import { Command } from '../../types/cli';
+
+/**
+ * Start a REPL, with the registered classes preloaded
+ */
+const startConsole: Command = async (api: Warp) => {
+    // Connect to the database
+    await api.classes.initialize();
+
+    // Start the REPL
+    const server = repl.start({ prompt: 'warp> ' });
+    Object.assign(server.context, { api, classes: api.classes, functions: api.functions, Query, Class });
+
+    // Preload the classes, by the pascal case of their class names, i.e. `Dog`
+    for (const classType of api.classes.all()) server.context[toPascalCase(classType.className).replace(/\W/g, '')] = classType;
+
+    // Wait until the REPL is closed
+    await new Promise(resolve => server.on('exit', resolve));
+};
+
+export default startConsole;
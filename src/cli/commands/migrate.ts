@@ -0,0 +1,32 @@
+import Warp from '../../index';
+import Error from '../../utils/error';
+import { Command } from '../../types/cli';
+
+/**
+ * Generate, apply, or roll back migrations
+ * @description i.e. `warp migrate`, `warp migrate generate add dogs`, `warp migrate down`, `warp migrate status`.
+ * Generating a migration that drops columns requires `--drop`.
+ */
+const migrate: Command = async (api: Warp, [ action = 'up', ...names ]: string[], options) => {
+    // Connect to the database
+    await api.classes.initialize();
+
+    if (action === 'status') {
+        const statuses = await api.migrations.status();
+        if (statuses.length === 0) console.log('No migrations found');
+        for (const { name, batch, applied } of statuses) console.log(`${name}  ${applied ? `batch ${batch}` : 'pending'}`);
+    } else if (action === 'generate') {
+        const name = await api.migrations.generate(names.join(' ') || 'migration', { drop: options.drop === true });
+        console.log(typeof name !== 'undefined' ? `Generated ${name}` : 'Nothing to migrate');
+    } else if (action === 'up') {
+        const applied = await api.migrations.up();
+        if (applied.length === 0) console.log('Nothing to migrate');
+        for (const name of applied) console.log(`Migrated ${name}`);
+    } else if (action === 'down') {
+        const rolledBack = await api.migrations.down();
+        if (rolledBack.length === 0) console.log('Nothing to roll back');
+        for (const name of rolledBack) console.log(`Rolled back ${name}`);
+    } else throw new Error(Error.Code.ForbiddenOperation, `Migration action \`${action}\` does not exist`);
+};
+
+export default migrate;
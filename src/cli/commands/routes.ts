@@ -0,0 +1,39 @@
+import chalk from 'chalk';
+import Warp from '../../index';
+import { Command } from '../../types/cli';
+
+/**
+ * Get the routes of a router, including those of nested routers
+ * @param {Array} stack of the router
+ */
+const getRoutes = (stack: any[]): Array<[ string, string ]> => stack.reduce((list, layer) => {
+    if (layer.route) {
+        const methods = Object.keys(layer.route.methods).map(method => method.toUpperCase());
+        return [ ...list, ...methods.map(method => [ method, layer.route.path ]) ];
+    } else if (layer.handle && layer.handle.stack) return [ ...list, ...getRoutes(layer.handle.stack) ];
+    else return list;
+}, []);
+
+/**
+ * Print the REST and function endpoints, relative to where the router is mounted
+ */
+const routes: Command = async (api: Warp) => {
+    // Get the class routes of each registered class
+    const routerRoutes = getRoutes(api.router.stack);
+    const classRoutes = [
+        ...routerRoutes.filter(([ , route ]) => !route.includes(':className')),
+        ...api.classes.all().reduce((list, { className }) => [
+            ...list,
+            ...routerRoutes.filter(([ , route ]) => route.includes(':className')).map(([ method, route ]) => [ method, route.replace(':className', className) ]),
+        ], []),
+    ];
+
+    // Functions accept any method
+    const functionRoutes = Object.entries(api.functions.all()).map(([ functionName, functionType ]) => {
+        return [ 'ALL', `/functions/${functionName}${functionType.masterOnly ? chalk.gray(' [master]') : ''}` ];
+    });
+
+    for (const [ method, route ] of [ ...classRoutes, ...functionRoutes ]) console.log(`${chalk.cyan(method.padEnd(7))} ${route}`);
+};
+
+export default routes;
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import Warp from '../../index';
+import Error from '../../utils/error';
+import { Command } from '../../types/cli';
+
+const readDirectory = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+
+/**
+ * Run the seeders inside the seeds directory, or only the given ones
+ * @description `.json` seeders map class names to the keys of the objects to create, while `.js` seeders
+ * export a function that receives the class manager and the `Warp` instance. Each seeder runs in its own transaction.
+ */
+const seed: Command = async (api: Warp, names: string[], { seeds = 'seeds' }) => {
+    // Get seeders, in order
+    const directory = path.resolve(String(seeds));
+    const files = (await readDirectory(directory))
+        .filter(file => [ '.js', '.json' ].includes(path.extname(file)))
+        .filter(file => names.length === 0 || names.includes(path.basename(file, path.extname(file))))
+        .sort();
+    if (files.length === 0) console.log('Nothing to seed');
+
+    // Connect to the database
+    await api.classes.initialize();
+
+    for (const file of files) {
+        const filename = path.join(directory, file);
+
+        await api.classes.transaction(async classes => {
+            if (path.extname(file) === '.json') {
+                // Create the objects of each class
+                const objects = JSON.parse(await readFile(filename, 'utf8'));
+                for (const [ className, rows ] of Object.entries<Array<{ [key: string]: any }>>(objects)) {
+                    const classType = classes.get(className);
+                    await classes.saveMany(rows.map(keys => new classType(keys)), { master: true });
+                }
+            } else {
+                // Run the seeder function
+                const seeder = require(filename);
+                const run = typeof seeder === 'function' ? seeder : seeder.default;
+                if (typeof run !== 'function')
+                    throw new Error(Error.Code.MissingConfiguration, `Seeder \`${file}\` must export a function`);
+                await run(classes, api);
+            }
+        });
+
+        console.log(`Seeded ${file}`);
+    }
+};
+
+export default seed;
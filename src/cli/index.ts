@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+import path from 'path';
+import chalk from 'chalk';
+import Warp from '../index';
+import Error from '../utils/error';
+import { Command, CommandOptions } from '../types/cli';
+import classes from './commands/classes';
+import migrate from './commands/migrate';
+import seed from './commands/seed';
+import startConsole from './commands/console';
+import routes from './commands/routes';
+
+const commands: { [name: string]: Command } = {
+    classes,
+    migrate,
+    seed,
+    console: startConsole,
+    routes,
+};
+
+const usage = `Usage: warp <command> [...args] [--app=warp.js]
+
+Commands:
+  classes                      List the registered classes and their keys
+  migrate [up]                 Apply the pending migrations
+  migrate generate <name> [--drop]
+                               Generate a migration from the registered classes, --drop confirms dropping columns
+  migrate down                 Roll back the last batch of migrations
+  migrate status               List the migrations, and whether they have been applied
+  seed [...names] [--seeds=seeds]
+                               Run the seeders inside the seeds directory
+  console                      Start a REPL with the registered classes preloaded
+  routes                       List the REST and function endpoints
+
+The app is a module that exports a Warp instance, with its classes and functions registered.`;
+
+/**
+ * Split the arguments into positional arguments and `--option=value` options
+ * @param {Array} argv
+ */
+export const parse = (argv: string[]): [ string[], CommandOptions ] => {
+    const args: string[] = [];
+    const options: CommandOptions = {};
+    for (const arg of argv) {
+        if (!arg.startsWith('--')) {
+            args.push(arg);
+            continue;
+        }
+
+        // Options without a value are flags
+        const [ option, ...value ] = arg.slice(2).split('=');
+        options[option] = value.length > 0 ? value.join('=') : true;
+    }
+
+    return [ args, options ];
+};
+
+/**
+ * Load the Warp instance exported by the app
+ * @param {String} app
+ */
+const load = (app: string): Warp => {
+    // Check if the app exists
+    let filename: string;
+    try {
+        filename = require.resolve(path.resolve(app));
+    } catch (err) {
+        throw new Error(Error.Code.MissingConfiguration, `App \`${app}\` could not be found, use \`--app\` to set its path`);
+    }
+
+    const exported = require(filename);
+    const api = [ exported, exported.default, exported.warp ].find(candidate => candidate instanceof Warp);
+    if (typeof api === 'undefined')
+        throw new Error(Error.Code.MissingConfiguration, `\`${app}\` must export a Warp instance`);
+    return api;
+};
+
+/**
+ * Run the command of the process arguments
+ */
+const run = async () => {
+    // Get command
+    const [ [ name, ...args ], options ] = parse(process.argv.slice(2));
+    const command = commands[name];
+    if (typeof command === 'undefined' || options.help) {
+        console.log(usage);
+        process.exit(typeof name === 'undefined' || name === 'help' || options.help ? 0 : 1);
+    }
+
+    try {
+        // Run the command on the app
+        await command(load(String(options.app || process.env.WARP_APP || 'warp.js')), args, options);
+        process.exit(0);
+    } catch (err) {
+        console.error(chalk.red(err.message));
+        process.exit(1);
+    }
+};
+
+// Run the command, unless the module was imported
+if (require.main === module) run();
@@ -5,11 +5,16 @@ import Error from '../utils/error';
 import {
     GetOptionsType,
     FindOptionsType,
+    CountOptionsType,
+    AggregateOptionsType,
     CreateOptionsType,
     UpdateOptionsType,
     DestroyOptionsType,
+    RestoreOptionsType,
+    PurgeOptionsType,
 } from '../types/classes';
 import Query from '../features/orm/query';
+import { AggregateRow } from '../types/database';
 import { InternalKeys, InternalId } from '../utils/constants';
 
 export default class ClassController {
@@ -20,7 +25,19 @@ export default class ClassController {
         this.api = api;
     }
 
-    public async find({ user, className, select, include, where = {}, sort, skip, limit }: FindOptionsType): Promise<Collection<Class>> {
+    public async find({
+        user,
+        master,
+        className,
+        select,
+        include,
+        where = {},
+        sort,
+        skip,
+        limit,
+        after,
+        before,
+    }: FindOptionsType): Promise<Collection<Class>> {
         // Get class
         const classType = this.api.classes.get(className);
 
@@ -33,21 +50,72 @@ export default class ClassController {
         if (typeof sort !== 'undefined') query.sortBy(sort);
         if (typeof skip !== 'undefined') query.skip(skip);
         if (typeof limit !== 'undefined') query.limit(limit);
+        if (typeof after !== 'undefined') query.after(after);
+        if (typeof before !== 'undefined') query.before(before);
         if (typeof where !== 'undefined') query.where(where);
 
         // Find matching objects
-        const classCollection = await this.api.classes.find(query, { user: user || undefined });
+        const classCollection = await this.api.classes.find(query, { user: user || undefined, master });
 
         // Return collection
         return classCollection;
     }
 
-    public async get({ user, className, id, include, select }: GetOptionsType): Promise<Class> {
+    public async count({ user, master, className, where }: CountOptionsType): Promise<number> {
+        // Get class
+        const classType = this.api.classes.get(className);
+
+        // Prepare query
+        const query = new Query(classType);
+
+        // Set options
+        if (typeof where !== 'undefined') query.where(where);
+
+        // Count matching objects
+        return await this.api.classes.count(query, { user: user || undefined, master });
+    }
+
+    public async aggregate({
+        user,
+        master,
+        className,
+        aggregate = {},
+        groupBy,
+        having,
+        where,
+        sort,
+        skip,
+        limit,
+    }: AggregateOptionsType): Promise<AggregateRow[]> {
+        // Get class
+        const classType = this.api.classes.get(className);
+
+        // Prepare query
+        const query = new Query(classType);
+
+        // Set aggregates
+        for (const [ alias, aggregateMap ] of Object.entries(aggregate)) {
+            for (const [ type, key ] of Object.entries(aggregateMap)) query.aggregate(type, key, alias);
+        }
+
+        // Set options
+        if (typeof groupBy !== 'undefined') query.groupBy(groupBy);
+        if (typeof having !== 'undefined') query.having(having);
+        if (typeof where !== 'undefined') query.where(where);
+        if (typeof sort !== 'undefined') query.sortBy(sort);
+        if (typeof skip !== 'undefined') query.skip(skip);
+        if (typeof limit !== 'undefined') query.limit(limit);
+
+        // Get the aggregated rows
+        return await this.api.classes.aggregate(query, { user: user || undefined, master });
+    }
+
+    public async get({ user, master, className, id, include, select }: GetOptionsType): Promise<Class> {
         // Get class
         const classType = this.api.classes.get(className);
 
         // Find matching objects
-        const classInstance = await this.api.classes.getById(classType, id, include, select, { user: user || undefined });
+        const classInstance = await this.api.classes.getById(classType, id, include, select, { user: user || undefined, master });
 
         // Check if class is found
         if (classInstance === null)
@@ -57,47 +125,84 @@ export default class ClassController {
         return classInstance;
     }
 
-    public async create({ user, className, keys = {} }: CreateOptionsType): Promise<Class> {
+    public async create({ user, master, className, keys = {} }: CreateOptionsType): Promise<Class> {
         // Get class
         const classType = this.api.classes.get(className);
 
         // Check if id was sent in keys
-        if (typeof keys[InternalId] === 'undefined')
+        if (typeof keys[InternalId] !== 'undefined')
             throw new Error(Error.Code.ForbiddenOperation, 'Cannot manually set the `id` key on creation');
 
         // Prepare instance
         const classInstance = new classType(keys);
 
-        // Save the instance
-        await this.api.classes.save(classInstance, { user: user || undefined });
+        // Save the instance, and get its stored keys
+        await this.api.classes.save(classInstance, { user: user || undefined, master, refresh: true });
 
         // Return the class
         return classInstance;
     }
 
-    public async update({ user, className, keys = {}, id }: UpdateOptionsType): Promise<Class> {
+    public async update({ user, master, className, keys = {}, id }: UpdateOptionsType): Promise<Class> {
         // Get class
         const classType = this.api.classes.get(className);
 
         // Prepare instance
         const classInstance = new classType({ ...keys, id });
 
-        // Save the instance
-        await this.api.classes.save(classInstance, { user: user || undefined });
+        // Save the instance, and get its stored keys
+        await this.api.classes.save(classInstance, { user: user || undefined, master, refresh: true });
 
         // Return the class
         return classInstance;
     }
 
-   public async destroy({ user, className, id }: DestroyOptionsType): Promise<Class> {
+   public async destroy({ user, master, className, id }: DestroyOptionsType): Promise<Class> {
         // Get class
         const classType = this.api.classes.get(className);
 
         // Prepare instance
-        const classInstance = new classType(id);
+        const classInstance = new classType({ id });
 
         // Destroy the instance
-        await this.api.classes.destroy(classInstance, { user: user || undefined });
+        await this.api.classes.destroy(classInstance, { user: user || undefined, master });
+
+        // Return the class
+        return classInstance;
+    }
+
+    public async restore({ master, className, id }: RestoreOptionsType): Promise<Class> {
+        // Check if the request is made by a master
+        if (!master)
+            throw new Error(Error.Code.ForbiddenOperation, 'Objects can only be restored by a master');
+
+        // Get class
+        const classType = this.api.classes.get(className);
+
+        // Prepare instance
+        const classInstance = new classType({ id });
+
+        // Restore the instance, and get its stored keys
+        await this.api.classes.restore(classInstance);
+        await this.api.classes.refresh(classInstance);
+
+        // Return the class
+        return classInstance;
+    }
+
+    public async purge({ user, master, className, id }: PurgeOptionsType): Promise<Class> {
+        // Check if the request is made by a master
+        if (!master)
+            throw new Error(Error.Code.ForbiddenOperation, 'Objects can only be purged by a master');
+
+        // Get class
+        const classType = this.api.classes.get(className);
+
+        // Prepare instance
+        const classInstance = new classType({ id });
+
+        // Destroy the instance permanently
+        await this.api.classes.forceDestroy(classInstance, { user: user || undefined, master });
 
         // Return the class
         return classInstance;
@@ -9,12 +9,12 @@ export default class FunctionController {
         this.api = api;
     }
 
-    public async run({ user, functionName, keys = {} }: RunOptionsType): Promise<any> {
+    public async run({ user, master, functionName, keys = {} }: RunOptionsType): Promise<any> {
         // Get function
         const functionType = this.api.functions.get(functionName);
 
         // Run the function
-        const result = await this.api.functions.run(functionType, keys, { user: user || undefined });
+        const result = await this.api.functions.run(functionType, keys, { user: user || undefined, master });
 
         // Return the result
         return result;
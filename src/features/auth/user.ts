@@ -42,7 +42,7 @@ import { hidden } from '../orm/keys/modifiers/hidden';
         const { user, master } = opts;
 
         // If user is master
-        if (this.isMaster) return query;
+        if (this.isMaster(master)) return query;
         else if (!this.hasAccess(user, master)) {
             if (user) query.equalTo(InternalId, user.id);
             else throw new Error(Error.Code.ForbiddenOperation, 'You cannot anonymously fetch user data unless you are a master');
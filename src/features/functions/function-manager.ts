@@ -45,6 +45,13 @@ export default class FunctionManager {
         return functionType;
     }
 
+    /**
+     * Get every registered function, keyed by name
+     */
+    public all(): FunctionMapType<any> {
+        return { ...this.functions };
+    }
+
     /**
      * Run the function
      * @param functionType
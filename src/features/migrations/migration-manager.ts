@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import enforce from 'enforce-js';
+import Migration from './migration';
+import { getSchemasFrom, getOperationsFrom, getInversesOf, addIndexesTo } from './schema';
+import ClassManager from '../orm/class-manager';
+import Query from '../orm/query';
+import Error from '../../utils/error';
+import { MigrationOperations } from '../../utils/constants';
+import { toSnakeCase } from '../../utils/format';
+import { IDatabaseAdapter } from '../../types/database';
+import { TableSchema, MigrationOperation, MigrationFile, MigrationStatus, GenerateOptions } from '../../types/migrations';
+
+const readDirectory = promisify(fs.readdir);
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const makeDirectory = promisify(fs.mkdir);
+
+export default class MigrationManager {
+
+    private database: IDatabaseAdapter;
+    private classes: ClassManager;
+    private directory: string;
+
+    /**
+     * Constructor
+     * @param {IDatabaseAdapter} database
+     * @param {ClassManager} classes whose registered classes are migrated
+     * @param {String} directory where migration files are kept
+     */
+    constructor(database: IDatabaseAdapter, classes: ClassManager, directory: string) {
+        this.database = database;
+        this.classes = classes;
+        this.directory = directory;
+    }
+
+    /**
+     * Create the table of applied migrations if it does not exist, then get the live tables
+     */
+    private async prepare(): Promise<TableSchema[]> {
+        const live = await this.database.describe();
+        if (live.some(table => table.name === Migration.source)) return live;
+
+        await this.database.migrate(getOperationsFrom(getSchemasFrom([ Migration ]), []));
+        return await this.database.describe();
+    }
+
+    /**
+     * Get the names of the migration files, in order
+     */
+    private async getNames(): Promise<string[]> {
+        try {
+            const files = await readDirectory(this.directory);
+            return files.filter(file => path.extname(file) === '.json').map(file => path.basename(file, '.json')).sort();
+        } catch (err) {
+            // No migrations have been generated yet
+            if (err.code === 'ENOENT') return [];
+            throw err;
+        }
+    }
+
+    /**
+     * Read a migration file
+     * @param {String} name
+     */
+    private async read(name: string): Promise<MigrationFile> {
+        try {
+            const { up, down } = JSON.parse(await readFile(path.join(this.directory, `${name}.json`), 'utf8'));
+            if (!(up instanceof Array) || !(down instanceof Array)) throw new Error(Error.Code.MissingConfiguration, 'Missing operations');
+            return { up, down };
+        } catch (err) {
+            throw new Error(Error.Code.MissingConfiguration, `Migration \`${name}\` could not be read: ${err.message}`);
+        }
+    }
+
+    /**
+     * Get the applied migrations, in order
+     */
+    private async getApplied(): Promise<Migration[]> {
+        const applied: Migration[] = [];
+        for await (const migration of this.classes.stream(new Query(Migration).sortBy('id'))) applied.push(migration);
+        return applied;
+    }
+
+    /**
+     * Get the live tables, along with the indexes and foreign keys that the applied migrations created
+     */
+    private async getLive(): Promise<TableSchema[]> {
+        // Get the applied migrations whose files exist
+        const live = await this.prepare();
+        const names = await this.getNames();
+        const applied = (await this.getApplied()).filter(migration => names.includes(migration.name));
+
+        // Replay their operations
+        const operations: MigrationOperation[] = [];
+        for (const migration of applied) operations.push(...(await this.read(migration.name)).up);
+        return addIndexesTo(live, operations);
+    }
+
+    /**
+     * Get every migration, and whether it has been applied
+     */
+    public async status(): Promise<MigrationStatus[]> {
+        // Get migrations
+        await this.prepare();
+        const names = await this.getNames();
+        const applied = await this.getApplied();
+
+        // Include applied migrations whose files are missing
+        const appliedNames = applied.map(migration => migration.name);
+        return [ ...new Set([ ...names, ...appliedNames ]) ].sort().map(name => {
+            const migration = applied.find(item => item.name === name);
+            return typeof migration !== 'undefined' ? { name, batch: migration.batch, applied: true } : { name, applied: false };
+        });
+    }
+
+    /**
+     * Generate a migration file from the differences between the registered classes and the live tables
+     * @description Dropping columns loses their data, so it must be confirmed with the `drop` option
+     * @param {String} name
+     * @param {Object} opts
+     * @returns {String} the name of the migration, or `undefined` if the tables are up to date
+     */
+    public async generate(name: string, { drop = false }: GenerateOptions = {}): Promise<string | undefined> {
+        // Enforce
+        enforce`${{ MigrationName: name }} as a string`;
+
+        // Check if every migration has been applied, otherwise the differences would be generated twice
+        const statuses = await this.status();
+        if (statuses.some(migration => !migration.applied))
+            throw new Error(Error.Code.ForbiddenOperation, 'Pending migrations must be applied before generating a new one');
+
+        // Get the differences
+        const live = await this.getLive();
+        const up = getOperationsFrom(getSchemasFrom(this.classes.all()), live);
+        if (up.length === 0) return;
+
+        // Check if dropping columns was confirmed
+        const dropped = up.filter(operation => operation.type === MigrationOperations.DropColumn)
+            .reduce((list, { table, columns = [] }) => [ ...list, ...columns.map(column => `\`${table}.${column.name}\``) ], []);
+        if (dropped.length > 0 && !drop)
+            throw new Error(Error.Code.ForbiddenOperation, `Columns ${dropped.join(', ')} would be dropped along with their data, `
+                + 'use the `drop` option to confirm');
+
+        // Write the migration file, prefixed with a timestamp so that files are sorted by creation
+        const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+        const migrationName = `${timestamp}_${toSnakeCase(name).replace(/\W+/g, '_')}`;
+        const file: MigrationFile = { up, down: getInversesOf(up) };
+        try {
+            await makeDirectory(this.directory);
+        } catch (err) {
+            if (err.code !== 'EEXIST') throw err;
+        }
+        await writeFile(path.join(this.directory, `${migrationName}.json`), JSON.stringify(file, null, 4));
+
+        return migrationName;
+    }
+
+    /**
+     * Apply the pending migrations, as a single batch
+     * @returns {Array} the names of the applied migrations
+     */
+    public async up(): Promise<string[]> {
+        // Get pending migrations
+        await this.prepare();
+        const applied = await this.getApplied();
+        const pending = (await this.getNames()).filter(name => !applied.some(migration => migration.name === name));
+
+        // Get the next batch
+        const batch = applied.reduce((last, migration) => Math.max(last, migration.batch), 0) + 1;
+
+        // Apply each migration, then record it
+        for (const name of pending) {
+            const { up } = await this.read(name);
+            await this.database.migrate(up);
+            await this.classes.save(new Migration({ name, batch }));
+        }
+
+        return pending;
+    }
+
+    /**
+     * Roll back the migrations of the last batch
+     * @returns {Array} the names of the rolled back migrations
+     */
+    public async down(): Promise<string[]> {
+        // Get the migrations of the last batch, latest first
+        await this.prepare();
+        const applied = await this.getApplied();
+        const batch = applied.reduce((last, migration) => Math.max(last, migration.batch), 0);
+        const migrations = applied.filter(migration => migration.batch === batch).reverse();
+
+        // Undo each migration, then remove its record
+        for (const migration of migrations) {
+            const { down } = await this.read(migration.name);
+            await this.database.migrate(down);
+            await this.classes.forceDestroy(migration);
+        }
+
+        return migrations.map(migration => migration.name);
+    }
+}
@@ -0,0 +1,13 @@
+import Class, { define } from '../orm/class';
+import { key } from '../orm/keys/key';
+
+/**
+ * A migration that has been applied, along with the batch that applied it
+ */
+@define({ className: 'warp_migrations', softDeletes: false })
+export default class Migration extends Class {
+
+    @key public name: string;
+    @key public batch: number;
+
+}
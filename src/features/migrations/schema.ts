@@ -0,0 +1,188 @@
+import Class, { ClassDefinitionManager } from '../orm/class';
+import { InternalId, DeletedAt, MigrationOperations } from '../../utils/constants';
+import { ClassSchema, TableSchema, ColumnSchema, IndexSchema, ForeignKeySchema, MigrationOperation } from '../../types/migrations';
+
+/**
+ * Operations that undo each type of operation
+ */
+const Inverses = Object.freeze({
+    [MigrationOperations.CreateTable]: MigrationOperations.DropTable,
+    [MigrationOperations.DropTable]: MigrationOperations.CreateTable,
+    [MigrationOperations.AddColumn]: MigrationOperations.DropColumn,
+    [MigrationOperations.DropColumn]: MigrationOperations.AddColumn,
+    [MigrationOperations.AddIndex]: MigrationOperations.DropIndex,
+    [MigrationOperations.DropIndex]: MigrationOperations.AddIndex,
+    [MigrationOperations.AddForeignKey]: MigrationOperations.DropForeignKey,
+    [MigrationOperations.DropForeignKey]: MigrationOperations.AddForeignKey,
+});
+
+/**
+ * Add a relation column to a table, along with its index and foreign key
+ * @param {Object} schema
+ * @param {String} column
+ * @param {Array} references the table and column that the relation points to
+ */
+const addRelationTo = (schema: ClassSchema, column: string, references: [string, string]) => {
+    if (schema.columns.some(existing => existing.name === column)) return;
+
+    schema.columns.push({ name: column, type: 'relation' });
+    schema.indexes.push({ name: `${schema.name}_${column}_index`, columns: [ column ] });
+    schema.foreignKeys.push({ name: `${schema.name}_${column}_foreign`, column, references });
+};
+
+/**
+ * Get the tables that the classes expect
+ * @description Includes the pivot tables of `belongsToMany` relations, and the foreign keys of `hasMany` relations
+ * that the child classes do not define
+ * @param {Array} classTypes
+ */
+export const getSchemasFrom = (classTypes: Array<typeof Class>): ClassSchema[] => {
+    // Prepare schemas, keyed by table
+    const schemas: Map<string, ClassSchema> = new Map;
+    const getSchema = (name: string, columns: ColumnSchema[] = []) => {
+        const schema = schemas.get(name) || { name, columns, indexes: [], foreignKeys: [] };
+        schemas.set(name, schema);
+        return schema;
+    };
+
+    for (const classType of classTypes) {
+        // Get definition
+        const definition = ClassDefinitionManager.get(classType);
+        const schema = getSchema(classType.source, [ { name: InternalId, type: 'id' } ]);
+
+        // Add keys, except those that are computed
+        for (const key of definition.keys.filter(name => !definition.computed.includes(name))) {
+            // Check if the key is a relation
+            const relationDefinition = definition.relations[key];
+            if (typeof relationDefinition !== 'undefined') {
+                // Secondary relations are read from the tables of other classes
+                const relation = relationDefinition.toRelation();
+                if (!relation.secondary) addRelationTo(schema, relation.sourceKey, [ relation.class.source, relation.parentKey ]);
+                continue;
+            }
+
+            if (!schema.columns.some(column => column.name === key))
+                schema.columns.push({ name: key, type: definition.types[key] || 'any' });
+        }
+
+        // Add timestamps
+        for (const timestamp of definition.timestamps.filter(name => classType.softDeletes || name !== DeletedAt)) {
+            if (!schema.columns.some(column => column.name === timestamp))
+                schema.columns.push({ name: timestamp, type: 'date' });
+        }
+
+        // Add pivot tables
+        for (const belongsToMany of Object.values(definition.belongsToMany)) {
+            const pivot = getSchema(belongsToMany.through);
+            addRelationTo(pivot, belongsToMany.foreignKeyOf(classType.className), [ classType.source, InternalId ]);
+            addRelationTo(pivot, belongsToMany.relatedKey, [ belongsToMany.class.source, InternalId ]);
+        }
+    }
+
+    // Add the foreign keys of children, once their own keys are added, i.e. `comment.post_id`
+    for (const classType of classTypes) {
+        for (const hasMany of Object.values(ClassDefinitionManager.get(classType).hasMany)) {
+            const schema = schemas.get(hasMany.class.source);
+            if (typeof schema !== 'undefined') addRelationTo(schema, hasMany.foreignKey, [ classType.source, InternalId ]);
+        }
+    }
+
+    return [ ...schemas.values() ];
+};
+
+/**
+ * Get the operations that migrate the live tables to the expected ones
+ * @description Tables are created, and columns are added or dropped, but tables are never dropped since they might
+ * not belong to a class. The indexes and foreign keys of dropped columns are dropped first, while those of added
+ * columns are added last, so that the tables they point to exist.
+ * @param {Array} expected
+ * @param {Array} live
+ */
+export const getOperationsFrom = (expected: ClassSchema[], live: TableSchema[]): MigrationOperation[] => {
+    // Prepare operations, by order of execution
+    const droppedForeignKeys: MigrationOperation[] = [];
+    const droppedIndexes: MigrationOperation[] = [];
+    const tables: MigrationOperation[] = [];
+    const columns: MigrationOperation[] = [];
+    const indexes: MigrationOperation[] = [];
+    const foreignKeys: MigrationOperation[] = [];
+
+    for (const schema of expected) {
+        // Get live table
+        const table = live.find(liveTable => liveTable.name === schema.name);
+        const liveColumns = typeof table !== 'undefined' ? table.columns.map(column => column.name) : [];
+        const expectedColumns = schema.columns.map(column => column.name);
+
+        // Create the table, or add the missing columns
+        const added = typeof table === 'undefined' ? schema.columns : schema.columns.filter(column => !liveColumns.includes(column.name));
+        if (typeof table === 'undefined')
+            tables.push({ type: MigrationOperations.CreateTable, table: schema.name, columns: added });
+        else if (added.length > 0)
+            columns.push({ type: MigrationOperations.AddColumn, table: schema.name, columns: added });
+
+        // Drop the columns that are no longer defined, along with their indexes and foreign keys
+        const dropped = typeof table !== 'undefined' ? table.columns.filter(column => !expectedColumns.includes(column.name)) : [];
+        if (typeof table !== 'undefined' && dropped.length > 0) {
+            const droppedColumns = dropped.map(column => column.name);
+            for (const foreignKey of (table.foreignKeys || []).filter(item => droppedColumns.includes(item.column)))
+                droppedForeignKeys.push({ type: MigrationOperations.DropForeignKey, table: schema.name, foreignKey });
+            for (const index of (table.indexes || []).filter(item => item.columns.some(column => droppedColumns.includes(column))))
+                droppedIndexes.push({ type: MigrationOperations.DropIndex, table: schema.name, index });
+            columns.push({ type: MigrationOperations.DropColumn, table: schema.name, columns: dropped });
+        }
+
+        // Index and constrain the added relations
+        const addedColumns = added.map(column => column.name);
+        for (const index of schema.indexes.filter(item => item.columns.every(column => addedColumns.includes(column))))
+            indexes.push({ type: MigrationOperations.AddIndex, table: schema.name, index });
+        for (const foreignKey of schema.foreignKeys.filter(item => addedColumns.includes(item.column)))
+            foreignKeys.push({ type: MigrationOperations.AddForeignKey, table: schema.name, foreignKey });
+    }
+
+    return [ ...droppedForeignKeys, ...droppedIndexes, ...tables, ...columns, ...indexes, ...foreignKeys ];
+};
+
+/**
+ * Add the indexes and foreign keys that the operations created to the live tables
+ * @description Live tables only describe their columns, so their indexes and foreign keys are known from the applied migrations
+ * @param {Array} live
+ * @param {Array} operations of the applied migrations, in order
+ */
+export const addIndexesTo = (live: TableSchema[], operations: MigrationOperation[]): TableSchema[] => {
+    // Copy the tables
+    const tables = live.map(table => ({ ...table, indexes: [] as IndexSchema[], foreignKeys: [] as ForeignKeySchema[] }));
+
+    for (const { type, table: name, columns = [], index, foreignKey } of operations) {
+        // Skip the tables that no longer exist
+        const table = tables.find(item => item.name === name);
+        if (typeof table === 'undefined') continue;
+
+        // Replay the operation
+        const names = columns.map(column => column.name);
+        if (type === MigrationOperations.AddIndex && typeof index !== 'undefined')
+            table.indexes.push(index);
+        else if (type === MigrationOperations.DropIndex && typeof index !== 'undefined')
+            table.indexes = table.indexes.filter(item => item.name !== index.name);
+        else if (type === MigrationOperations.AddForeignKey && typeof foreignKey !== 'undefined')
+            table.foreignKeys.push(foreignKey);
+        else if (type === MigrationOperations.DropForeignKey && typeof foreignKey !== 'undefined')
+            table.foreignKeys = table.foreignKeys.filter(item => item.name !== foreignKey.name);
+        else if (type === MigrationOperations.DropTable) {
+            table.indexes = [];
+            table.foreignKeys = [];
+        } else if (type === MigrationOperations.DropColumn) {
+            table.indexes = table.indexes.filter(item => !item.columns.some(column => names.includes(column)));
+            table.foreignKeys = table.foreignKeys.filter(item => !names.includes(item.column));
+        }
+    }
+
+    return tables;
+};
+
+/**
+ * Get the operations that undo the given operations
+ * @param {Array} operations
+ */
+export const getInversesOf = (operations: MigrationOperation[]): MigrationOperation[] => {
+    return operations.map(operation => ({ ...operation, type: Inverses[operation.type] })).reverse();
+};
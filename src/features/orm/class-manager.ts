@@ -1,12 +1,15 @@
 import enforce from 'enforce-js';
 import Class, { ClassDefinitionManager } from './class';
 import Query from './query';
+import Relation, { HasManyDefinition, BelongsToManyDefinition } from './relation';
 import User from '../auth/user';
-import { IDatabaseAdapter } from '../../types/database';
+import { IDatabaseAdapter, AggregateRow } from '../../types/database';
 import Collection from '../../utils/collection';
 import Error from '../../utils/error';
+import ConstraintMap, { Constraints } from '../../utils/constraint-map';
 import {
     InternalKeys,
+    Defaults,
     TriggerBeforeSave,
     TriggerAfterSave,
     TriggerBeforeDestroy,
@@ -17,25 +20,82 @@ import {
     SetJsonTypeName,
     AppendJsonTypeName,
     InternalId,
+    DeletedAt,
+    DatabaseWrite,
 } from '../../utils/constants';
-import { ClassMapType, ClassOptions, ClassId } from '../../types/class';
+import { ClassMapType, ClassOptions, SaveOptions, UpsertOptions, ClassId, ClassKeys } from '../../types/class';
 import { Increment, JsonAction } from './specials';
 import KeyMap from '../../utils/key-map';
 
+/**
+ * Keys of an object that is about to be saved
+ */
+interface PreparedSave {
+    changes: ClassKeys;
+    keys: KeyMap;
+    conditions: KeyMap;
+    versionKey?: string;
+    nextVersion?: number | Increment;
+    identifier?: ClassId;
+}
+
+/**
+ * A running transaction, along with the database that it began on
+ */
+interface TransactionContext {
+    database: IDatabaseAdapter;
+    tx: ClassManager;
+    open: boolean;
+}
+
+/**
+ * Storage that follows async contexts, which the installed node typings do not describe
+ */
+interface AsyncStorage<T> {
+    getStore(): T | undefined;
+    run<R>(store: T, callback: () => R): R;
+}
+
+/**
+ * The transaction that the callback of `transaction` runs in
+ */
+const { AsyncLocalStorage } = require('async_hooks');
+const transactions: AsyncStorage<TransactionContext> = new AsyncLocalStorage();
+
 export default class ClassManager {
 
-    private database: IDatabaseAdapter;
+    private adapter: IDatabaseAdapter;
     private classes: ClassMapType<any> = {};
+    private deferred?: Array<(classes: ClassManager) => Promise<void>>;
 
     constructor(database: IDatabaseAdapter) {
-        this.database = database;
+        this.adapter = database;
+    }
+
+    /**
+     * Get the database that statements run on
+     * @description Inside the callback of a transaction, statements of the manager that began it,
+     * such as those of triggers that use the app-level manager, join the transaction instead of waiting for it to end
+     */
+    private get database(): IDatabaseAdapter {
+        const tx = this.getTransaction();
+        return typeof tx !== 'undefined' ? tx.database : this.adapter;
+    }
+
+    /**
+     * Get the transactional class manager that the current async context runs in, if it began on this manager
+     */
+    private getTransaction(): ClassManager | undefined {
+        const context = transactions.getStore();
+        if (typeof context === 'undefined' || !context.open || context.database !== this.adapter) return;
+        return context.tx;
     }
 
     /**
      * Get key map from instance
      * @param classInstance
      */
-    private getKeyMapFrom<C extends Class>(classInstance: C) {
+    private getKeyMapFrom<C extends Class>(classInstance: C, keyNames?: string[]) {
         // Get definition
         const definition = ClassDefinitionManager.get(classInstance.statics());
 
@@ -47,6 +107,9 @@ export default class ClassManager {
             // Get key map
             const [ key, value ] = keyValue;
 
+            // Skip the keys that were not requested
+            if (typeof keyNames !== 'undefined' && !keyNames.includes(key)) return keyMap;
+
             // Get relation definition
             const relationDefinition = definition.relations[key];
 
@@ -69,6 +132,26 @@ export default class ClassManager {
         return keys;
     }
 
+    /**
+     * Run an action in the background
+     * @description Inside a transaction, the action is deferred until the transaction is committed
+     * @param action
+     */
+    private runInBackground(action: (classes: ClassManager) => Promise<void>) {
+        // Defer the action if inside a transaction
+        const { deferred } = this.getTransaction() || this;
+        if (typeof deferred !== 'undefined') {
+            deferred.push(action);
+            return;
+        }
+
+        (async () => {
+            try {
+                await action(this);
+            } catch (err) { /* do nothing */ }
+        })();
+    }
+
     /**
      * Connect to the database
      */
@@ -111,24 +194,146 @@ export default class ClassManager {
     }
 
     /**
-     * Find objects
-     * @param query
+     * Get every registered class
+     */
+    public all(): Array<typeof Class> {
+        return Object.values<typeof Class>(this.classes);
+    }
+
+    /**
+     * Get the children of the objects, grouped by the `id` of their parent
+     * @param hasMany
+     * @param objects
      * @param opts
      */
-    public async find<C extends typeof Class, U extends User>(query: Query<C>, opts: ClassOptions<U> = {}): Promise<Collection<C['prototype']>> {
-        // Validate instance
-        enforce`${{ QueryToFind: query }} as a ${{ Query }}`;
+    private async getChildren<U extends User | undefined>(hasMany: HasManyDefinition<typeof Class>, objects: Class[], opts: ClassOptions<U>) {
+        // Get the child class and the key that points to the parent
+        const { class: childClass, foreignKey } = hasMany;
 
-        // Create classInstance
-        const classInstance = new query.class;
+        // Check if the foreign key belongs to a relation of the child, i.e. `post_id` of `post`
+        const relationName = childClass.getForeignKeyRelation(foreignKey);
+
+        // Prepare groups for each parent
+        const groups: Map<string, Class[]> = new Map(objects.map<[ string, Class[] ]>(object => [ String(object.id), [] ]));
+
+        // Fetch the children of all the objects
+        const childQuery = new Query(childClass).containedIn(foreignKey, objects.map(object => object.id));
+
+        for await (const page of this.paginate(childQuery, opts)) {
+            for (const child of page) {
+                // Get the id of the parent
+                const parent = typeof relationName !== 'undefined' ? child.keys.get(relationName) : child.keys.get(foreignKey);
+                const parentId = parent instanceof Class ? parent.id : parent;
+
+                // Add the child to its parent's group
+                const group = groups.get(String(parentId));
+                if (typeof group !== 'undefined') group.push(child);
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Get the pairs of ids inside a pivot table
+     * @param belongsToMany
+     * @param className of the owner
+     * @param ids of the owners
+     */
+    private async getLinks(belongsToMany: BelongsToManyDefinition<typeof Class>, className: string, ids: ClassId[]) {
+        // Get the pivot keys
+        const { through, relatedKey } = belongsToMany;
+        const foreignKey = belongsToMany.foreignKeyOf(className);
+        const [ sourceKey, targetKey ] = [ Relation.formatKey(through, foreignKey), Relation.formatKey(through, relatedKey) ];
+
+        // Prepare the query
+        const columns = new Map([ [ sourceKey, foreignKey ], [ targetKey, relatedKey ] ]);
+        const constraints = new ConstraintMap;
+        constraints.set(sourceKey, Constraints.ContainedIn, ids);
+
+        // Fetch the links, one page at a time
+        const links: Array<[ ClassId, ClassId ]> = [];
+        const limitation = Defaults.Query.Limit;
+        for (let skipped = 0; ; skipped += limitation) {
+            const rows = await this.database.find([ through, through ], columns, new Map, constraints, [ sourceKey, targetKey ], skipped, limitation);
+            for (const row of rows) links.push([ row.get(foreignKey), row.get(relatedKey) ]);
+            if (rows.length < limitation) return links;
+        }
+    }
+
+    /**
+     * Get the objects linked to the objects, grouped by the `id` of their owner
+     * @param belongsToMany
+     * @param className of the owner
+     * @param objects
+     * @param opts
+     */
+    private async getLinked<U extends User>(
+        belongsToMany: BelongsToManyDefinition<typeof Class>,
+        className: string,
+        objects: Class[],
+        opts: ClassOptions<U>,
+    ) {
+        // Prepare groups for each owner
+        const groups: Map<string, Class[]> = new Map(objects.map<[ string, Class[] ]>(object => [ String(object.id), [] ]));
+
+        // Get the links of all the objects
+        const links = await this.getLinks(belongsToMany, className, objects.map(object => object.id));
+        if (links.length === 0) return groups;
+
+        // Fetch the related objects
+        const related: Map<string, Class> = new Map;
+        const relatedIds = [ ...new Set(links.map(([ , relatedId ]) => String(relatedId))) ];
+        const relatedQuery = new Query(belongsToMany.class).containedIn(InternalId, relatedIds);
+        for await (const page of this.paginate(relatedQuery, opts))
+            for (const object of page) related.set(String(object.id), object);
+
+        // Add the related objects to their owners' groups
+        for (const [ id, relatedId ] of links) {
+            const group = groups.get(String(id));
+            const object = related.get(String(relatedId));
+            if (typeof group !== 'undefined' && typeof object !== 'undefined') group.push(object);
+        }
+
+        return groups;
+    }
+
+    /**
+     * Load the included collections of the objects
+     * @description Collections of every object are fetched together, in separate queries for each collection
+     * @param query
+     * @param objects
+     * @param opts
+     */
+    private async loadCollections<C extends typeof Class, U extends User | undefined>(
+        query: Query<C>,
+        objects: Array<C['prototype']>,
+        opts: ClassOptions<U>,
+    ) {
+        // Check if there is anything to load
+        if (objects.length === 0) return;
 
         // Get definition
-        const definition = ClassDefinitionManager.get(classInstance.statics());
+        const definition = ClassDefinitionManager.get(query.class);
 
-        // Run all beforeFind triggers
-        const beforeFindTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeFind);
-        for (const trigger of beforeFindTriggers) await trigger.action.apply(classInstance, [ query, opts ]);
+        // Iterate through the included collections
+        for (const name of query.collections) {
+            // Get the collections, grouped by the id of each object
+            const groups = typeof definition.hasMany[name] !== 'undefined'
+                ? await this.getChildren(definition.hasMany[name], objects, opts)
+                : await this.getLinked(definition.belongsToMany[name], query.class.className, objects, opts);
+
+            // Set the collections
+            for (const object of objects) object.collections.set(name, new Collection(groups.get(String(object.id)) || []));
+        }
+    }
 
+    /**
+     * Fetch a page of objects, without running triggers
+     * @param query
+     * @param opts
+     */
+    private async fetch<C extends typeof Class, U extends User | undefined>(query: Query<C>, opts: ClassOptions<U>): Promise<Collection<C['prototype']>> {
         // Get query options
         const {
             source,
@@ -151,6 +356,12 @@ export default class ClassManager {
             limitation,
         );
 
+        // Restore the order of rows fetched before a cursor
+        if (query.isReversed) result.reverse();
+
+        // Get the cursors, before the keys are converted
+        const cursors = query.getCursors(result);
+
         // Prepare rows
         const rows: Array<C['prototype']> = [];
         for (const row of result) {
@@ -158,8 +369,162 @@ export default class ClassManager {
             rows.push(query.getClassFromKeys<C['prototype']>(row));
         }
 
+        // Load the included collections
+        await this.loadCollections(query, rows, opts);
+
         // Return the result
-        return new Collection(rows);
+        return new Collection(rows, cursors);
+    }
+
+    /**
+     * Find objects
+     * @param query
+     * @param opts
+     */
+    public async find<C extends typeof Class, U extends User>(query: Query<C>, opts: ClassOptions<U> = {}): Promise<Collection<C['prototype']>> {
+        // Validate instance
+        enforce`${{ QueryToFind: query }} as a ${{ Query }}`;
+
+        // Create classInstance
+        const classInstance = new query.class;
+
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+
+        // Run all beforeFind triggers
+        const beforeFindTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeFind);
+        for (const trigger of beforeFindTriggers) await trigger.action.apply(classInstance, [ query, opts ]);
+
+        // Fetch the objects
+        return await this.fetch(query, opts);
+    }
+
+    /**
+     * Walk through the pages of objects that match
+     * @description Pages are fetched one at a time with cursors, using the limit of the query as the page size
+     * @param query
+     * @param opts
+     */
+    private async *paginate<C extends typeof Class, U extends User | undefined>(
+        original: Query<C>,
+        opts: ClassOptions<U> = {},
+    ): AsyncIterableIterator<Collection<C['prototype']>> {
+        // Copy the query, since the cursor is moved on each page
+        const query = original.clone();
+
+        // Create classInstance
+        const classInstance = new query.class;
+
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+
+        // Run all beforeFind triggers, only once for all pages
+        const beforeFindTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeFind);
+        for (const trigger of beforeFindTriggers) await trigger.action.apply(classInstance, [ query, opts ]);
+
+        // Fetch the pages until there are no more objects
+        let page = await this.fetch(query, opts);
+        while (page.length > 0) {
+            yield page;
+
+            // Continue after the last object of the page
+            const cursor = page.nextCursor;
+            if (cursor === null) return;
+            page = await this.fetch(query.skip(0).after(cursor), opts);
+        }
+    }
+
+    /**
+     * Stream objects that match
+     * @description Only a single page of objects is kept in memory at a time.
+     * The limit of the query is used as the page size.
+     * @param query
+     * @param opts
+     */
+    public async *stream<C extends typeof Class, U extends User>(
+        query: Query<C>,
+        opts: ClassOptions<U> = {},
+    ): AsyncIterableIterator<C['prototype']> {
+        // Validate instance
+        enforce`${{ QueryToStream: query }} as a ${{ Query }}`;
+
+        // Yield each object of each page
+        for await (const page of this.paginate(query, opts)) {
+            for (const object of page) yield object;
+        }
+    }
+
+    /**
+     * Process objects that match in chunks
+     * @description Each chunk is processed before the next one is fetched
+     * @param query
+     * @param size number of objects per chunk
+     * @param iterator
+     * @param opts
+     */
+    public async chunk<C extends typeof Class, U extends User>(
+        query: Query<C>,
+        size: number,
+        iterator: (objects: Collection<C['prototype']>) => Promise<any>,
+        opts: ClassOptions<U> = {},
+    ): Promise<void> {
+        // Validate instance
+        enforce`${{ QueryToChunk: query }} as a ${{ Query }}`;
+        enforce`${{ size }} as a number, greater than 0`;
+
+        // Process each chunk, using a copy of the query with the chunk size
+        for await (const page of this.paginate(query.clone().limit(size), opts)) await iterator(page);
+
+        return;
+    }
+
+    /**
+     * Count objects that match
+     * @param query
+     * @param opts
+     */
+    public async count<C extends typeof Class, U extends User>(query: Query<C>, opts: ClassOptions<U> = {}): Promise<number> {
+        // Validate instance
+        enforce`${{ QueryToCount: query }} as a ${{ Query }}`;
+
+        // Create classInstance
+        const classInstance = new query.class;
+
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+
+        // Run all beforeFind triggers
+        const beforeFindTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeFind);
+        for (const trigger of beforeFindTriggers) await trigger.action.apply(classInstance, [ query, opts ]);
+
+        // Get query options
+        const { source, relations, constraints } = query.toQueryOptions();
+
+        // Execute count
+        return await this.database.count(source, relations, constraints);
+    }
+
+    /**
+     * Get the aggregates of objects that match
+     * @param query
+     * @param opts
+     */
+    public async aggregate<C extends typeof Class, U extends User>(query: Query<C>, opts: ClassOptions<U> = {}): Promise<AggregateRow[]> {
+        // Validate instance
+        enforce`${{ QueryToAggregate: query }} as a ${{ Query }}`;
+
+        // Create classInstance
+        const classInstance = new query.class;
+
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+
+        // Run all beforeFind triggers
+        const beforeFindTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeFind);
+        for (const trigger of beforeFindTriggers) await trigger.action.apply(classInstance, [ query, opts ]);
+
+        // Execute aggregate and return plain rows
+        return await this.database.aggregate(query.toAggregateOptions());
     }
 
     /**
@@ -246,30 +611,57 @@ export default class ClassManager {
             limitation,
         );
 
-        // Return empty result if null
-        if (!result) return null;
+        // Return empty result if nothing matches
+        if (result.length === 0) return null;
+
+        // Get the object
+        const object = query.getClassFromKeys<C['prototype']>(result[0]);
+
+        // Load the included collections
+        await this.loadCollections(query, [ object ], opts);
 
         // Return result
-        return query.getClassFromKeys<C['prototype']>(result[0]);
+        return object;
     }
 
     /**
-     * Save the object
+     * Run the beforeSave triggers of the object, and get the keys to save
      * @param classInstance
+     * @param opts
+     * @param matchVersion whether an update only applies to the current version, instead of incrementing it
      */
-    public async save<C extends Class, U extends User | undefined>(classInstance: C, opts: ClassOptions<U> = {}) {
-        // Validate instance
-        enforce`${{ ClassToSave: classInstance }} as a ${{ Class }}`;
-
+    private async prepareSave<C extends Class, U extends User | undefined>(
+        classInstance: C,
+        opts: SaveOptions<U>,
+        matchVersion: boolean = true,
+    ): Promise<PreparedSave> {
         // Get definition
         const definition = ClassDefinitionManager.get(classInstance.statics());
 
         // Run all beforeSave triggers
         const beforeSaveTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeSave);
-        for (const trigger of beforeSaveTriggers) await trigger.action.apply(classInstance, [ this, opts ]);
-
-        // Get key map
-        const keys = this.getKeyMapFrom(classInstance);
+        for (const trigger of beforeSaveTriggers) await trigger.action.apply(classInstance, [ this, opts, classInstance.getChanges() ]);
+
+        // Get the keys that changed, including those changed by the triggers
+        const changes = classInstance.getChanges();
+
+        // Get key map, with only the changed keys
+        const keys = this.getKeyMapFrom(classInstance, Object.keys(changes));
+
+        // Get the version that the row must match, and the next version
+        const versionKey = definition.version;
+        const conditions = new KeyMap;
+        let nextVersion: number | Increment | undefined;
+        if (typeof versionKey !== 'undefined') {
+            const currentVersion = classInstance.keys.get(versionKey);
+            if (classInstance.isNew) nextVersion = currentVersion === null || typeof currentVersion === 'undefined' ? 1 : Number(currentVersion);
+            else if (currentVersion === null || typeof currentVersion === 'undefined' || !matchVersion) nextVersion = new Increment(versionKey, 1);
+            else {
+                conditions.set(versionKey, currentVersion);
+                nextVersion = Number(currentVersion) + 1;
+            }
+            keys.set(versionKey, nextVersion);
+        }
 
         // Get new identifier
         const identifier = classInstance.newIdentifier;
@@ -277,14 +669,38 @@ export default class ClassManager {
         // Set identifier inside keys if it exists
         if (typeof identifier !== 'undefined') keys.set(InternalId, identifier);
 
-        // If the object is new
-        if (classInstance.isNew) {
-            // Execute create query and retrieve the new id
-            classInstance.identifier = await this.database.create(classInstance.statics().className, keys);
-        } else {
-            // Execute update query
-            await this.database.update(classInstance.statics().className, keys, classInstance.id);
+        return { changes, keys, conditions, versionKey, nextVersion, identifier };
+    }
+
+    /**
+     * Update the object with the prepared keys
+     * @param classInstance
+     * @param prepared
+     */
+    private async runUpdate<C extends Class>(classInstance: C, { keys, conditions, versionKey }: PreparedSave) {
+        // Execute update query
+        const updated = await this.database.update(classInstance.statics().className, keys, classInstance.id, conditions);
+
+        // Check if the row was modified by another request
+        if (conditions.keys.length > 0 && updated === 0) {
+            throw new Error(Error.Code.VersionConflict,
+                `\`${classInstance.statics().className}\` has been modified since version ${conditions.get(versionKey as string)}`);
         }
+    }
+
+    /**
+     * Set the saved state of the object, and run its afterSave triggers
+     * @param classInstance
+     * @param prepared
+     * @param opts
+     */
+    private async completeSave<C extends Class, U extends User | undefined>(
+        classInstance: C,
+        { changes, versionKey, nextVersion, identifier }: PreparedSave,
+        opts: SaveOptions<U>,
+    ) {
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
 
         // Set identifier if it exists
         if (typeof identifier !== 'undefined') classInstance.identifier = identifier;
@@ -292,18 +708,265 @@ export default class ClassManager {
         // Clear temp identifier
         classInstance.newIdentifier = undefined;
 
+        // Set the saved version, which is unknown if it was incremented without the current version
+        if (typeof versionKey !== 'undefined') {
+            if (nextVersion instanceof Increment) classInstance.keys.remove(versionKey);
+            else classInstance.keys.set(versionKey, nextVersion);
+        }
+
+        // Set the saved keys as the original keys
+        classInstance.syncOriginal();
+
+        // Get the stored keys, such as the results of increments and json actions
+        if (opts.refresh) await this.refresh(classInstance);
+
         // Run all afterSave triggers in the background
         const afterSaveTriggers = definition.triggers.filter(trigger => trigger.type === TriggerAfterSave);
-        (async () => {
-            try {
-                for (const trigger of afterSaveTriggers) await trigger.action.apply(classInstance, [ this, opts ]);
-            } catch (err) { /* do nothing */ }
-        })();
+        this.runInBackground(async classes => {
+            for (const trigger of afterSaveTriggers) await trigger.action.apply(classInstance, [ classes, opts, changes ]);
+        });
+    }
+
+    /**
+     * Save the object
+     * @param classInstance
+     */
+    public async save<C extends Class, U extends User | undefined>(classInstance: C, opts: SaveOptions<U> = {}) {
+        // Validate instance
+        enforce`${{ ClassToSave: classInstance }} as a ${{ Class }}`;
+
+        // Run all beforeSave triggers, and get the keys to save
+        const prepared = await this.prepareSave(classInstance, opts);
+
+        // If the object is new, execute create query and retrieve the new id
+        // Else, execute update query
+        if (classInstance.isNew) classInstance.identifier = await this.database.create(classInstance.statics().className, prepared.keys);
+        else await this.runUpdate(classInstance, prepared);
+
+        // Set the saved state, and run all afterSave triggers
+        await this.completeSave(classInstance, prepared, opts);
 
         // Return immediately
         return classInstance;
     }
 
+    /**
+     * Create the object, or update the existing object that has the same conflict keys
+     * @description The beforeSave triggers can check `isNew` to know whether the object is created or updated.
+     * Conflict keys and guarded keys are only set when the object is created.
+     * @param classInstance
+     * @param opts
+     * @returns the id of the object
+     */
+    public async upsert<C extends Class, U extends User | undefined>(classInstance: C, opts: UpsertOptions<U>): Promise<ClassId> {
+        // Validate instance
+        enforce`${{ ClassToUpsert: classInstance }} as a ${{ Class }}`;
+        enforce`${{ conflictKeys: opts.conflictKeys }} as an array`;
+
+        // Get definition
+        const classType = classInstance.statics<typeof Class>();
+        const definition = ClassDefinitionManager.get(classType);
+        const { conflictKeys } = opts;
+
+        // Check if the object can be upserted
+        if (!classInstance.isNew)
+            throw new Error(Error.Code.ForbiddenOperation, `Cannot upsert a \`${classType.className}\` that already has an id`);
+        else if (conflictKeys.length === 0)
+            throw new Error(Error.Code.MissingConfiguration, 'Upserts must have at least one conflict key');
+
+        // Prepare query for the existing object, including those that were soft deleted
+        const query = new Query(classType).select(InternalId).skip(0).limit(1);
+        if (classType.softDeletes) query.withTrashed();
+        for (const key of conflictKeys) {
+            if (!classType.has(key) || !classInstance.keys.has(key))
+                throw new Error(Error.Code.ForbiddenOperation, `Conflict key \`${key}\` must be set for \`${classType.className}\``);
+            query.equalTo(key, classInstance.keys.get(key));
+        }
+
+        // Find the existing object on the write connection, without the triggers that may scope it to the user
+        const { source, columns, relations, constraints, sorting, skipped, limitation } = query.toQueryOptions();
+        const [ existing ] = await this.database.find(source, columns, relations, constraints, sorting, skipped, limitation, DatabaseWrite);
+
+        // Set the id of the existing object, so that the triggers know that it is updated
+        if (typeof existing !== 'undefined') classInstance.identifier = existing.get(InternalId);
+
+        // Run all beforeSave triggers, and get the keys to save, incrementing the version of the existing object
+        const prepared = await this.prepareSave(classInstance, opts, false);
+        const { keys, versionKey } = prepared;
+
+        // Get the keys to update, without the conflict keys and guarded keys
+        const updateKeys = new KeyMap(keys.toJSON());
+        for (const key of [ InternalId, ...conflictKeys, ...definition.guarded ]) updateKeys.remove(key);
+
+        // Restore the existing object if it was soft deleted
+        if (classType.softDeletes) updateKeys.set(DeletedAt, null);
+
+        // Set the version of the created object, and increment that of the updated object
+        if (typeof versionKey !== 'undefined') {
+            keys.set(versionKey, 1);
+            updateKeys.set(versionKey, new Increment(versionKey, 1));
+        }
+
+        // Execute upsert query and retrieve the id
+        classInstance.identifier = await this.database.upsert(classType.className, keys, conflictKeys, updateKeys);
+
+        // Set the saved state, where the version is unknown, and run all afterSave triggers
+        const nextVersion = typeof versionKey !== 'undefined' ? new Increment(versionKey, 1) : undefined;
+        await this.completeSave(classInstance, { ...prepared, nextVersion }, opts);
+
+        // Return the id
+        return classInstance.id;
+    }
+
+    /**
+     * Save multiple objects inside a transaction
+     * @description New objects that share the same class and keys are created with a single statement
+     * @param classInstances
+     * @param opts
+     * @returns the ids of the objects, in order
+     */
+    public async saveMany<C extends Class, U extends User | undefined>(classInstances: C[], opts: SaveOptions<U> = {}): Promise<ClassId[]> {
+        // Validate instances
+        enforce`${{ ClassesToSave: classInstances }} as an array`;
+        for (const classInstance of classInstances) enforce`${{ ClassToSave: classInstance }} as a ${{ Class }}`;
+
+        return await this.transaction(async tx => {
+            // Run all beforeSave triggers of each object, and get the keys to save
+            const prepared: PreparedSave[] = [];
+            for (const classInstance of classInstances) prepared.push(await tx.prepareSave(classInstance, opts));
+
+            // Group the new objects by class and keys
+            const groups: Map<string, number[]> = new Map;
+            const isNew = classInstances.map(classInstance => classInstance.isNew);
+            classInstances.forEach((classInstance, index) => {
+                if (!isNew[index]) return;
+                const groupId = JSON.stringify([ classInstance.statics().className, prepared[index].keys.keys.sort() ]);
+                groups.set(groupId, [ ...(groups.get(groupId) || []), index ]);
+            });
+
+            // Execute a create query for each group and retrieve the new ids
+            for (const indexes of groups.values()) {
+                const ids = await tx.database.createMany(classInstances[indexes[0]].statics().className, indexes.map(index => prepared[index].keys));
+                indexes.forEach((index, position) => classInstances[index].identifier = ids[position]);
+            }
+
+            // Execute update queries for the existing objects
+            for (const [ index, classInstance ] of classInstances.entries())
+                if (!isNew[index]) await tx.runUpdate(classInstance, prepared[index]);
+
+            // Set the saved state, and run all afterSave triggers
+            for (const [ index, classInstance ] of classInstances.entries()) await tx.completeSave(classInstance, prepared[index], opts);
+
+            // Return the ids
+            return classInstances.map(classInstance => classInstance.id);
+        });
+    }
+
+    /**
+     * Update the objects that match, inside a transaction
+     * @description Objects are fetched in pages, using the limit of the query as the page size.
+     * The beforeSave triggers are run for each object, and objects with the same changes are updated with a single statement.
+     * Versioned objects are incremented without matching their current version.
+     * @param query
+     * @param keys
+     * @param opts
+     * @returns the number of updated objects
+     */
+    public async updateMany<C extends typeof Class, U extends User | undefined>(
+        query: Query<C>,
+        keys: ClassKeys,
+        opts: SaveOptions<U> = {},
+    ): Promise<number> {
+        // Validate instance
+        enforce`${{ QueryToUpdate: query }} as a ${{ Query }}`;
+        enforce`${{ keys }} as an object`;
+
+        // Check if id was sent in keys
+        if (typeof keys[InternalId] !== 'undefined')
+            throw new Error(Error.Code.ForbiddenOperation, 'Cannot set the `id` key of multiple objects');
+
+        return await this.transaction(async tx => {
+            let updated = 0;
+
+            for await (const page of tx.paginate(query, opts)) {
+                // Assign the keys, run all beforeSave triggers of each object, and get the keys to save
+                const objects = page.toList();
+                const prepared: PreparedSave[] = [];
+                for (const object of objects) prepared.push(await tx.prepareSave(object.fill(keys), opts, false));
+
+                // Group the objects by their keys
+                const groups: Map<string, number[]> = new Map;
+                prepared.forEach(({ keys: keyMap }, index) => {
+                    const groupId = JSON.stringify(keyMap.toArray());
+                    groups.set(groupId, [ ...(groups.get(groupId) || []), index ]);
+                });
+
+                // Execute an update query for each group
+                for (const indexes of groups.values())
+                    updated += await tx.database.updateMany(query.class.className, prepared[indexes[0]].keys, indexes.map(index => objects[index].id));
+
+                // Set the saved state, and run all afterSave triggers
+                for (const [ index, object ] of objects.entries()) await tx.completeSave(object, prepared[index], opts);
+            }
+
+            return updated;
+        });
+    }
+
+    /**
+     * Reload the keys of the object from the database, without running triggers
+     * @param classInstance
+     */
+    public async refresh<C extends Class>(classInstance: C): Promise<C> {
+        // Validate instance
+        enforce`${{ ClassToRefresh: classInstance }} as a ${{ Class }}`;
+
+        // Check if the object has been saved
+        const classType = classInstance.statics<typeof Class>();
+        if (classInstance.isNew)
+            throw new Error(Error.Code.ForbiddenOperation, `Cannot refresh a new \`${classType.className}\``);
+
+        // Prepare query
+        const query = new Query(classType)
+            .equalTo(InternalId, classInstance.id)
+            .skip(0)
+            .limit(1);
+
+        // Get parameters
+        const {
+            source,
+            columns,
+            relations,
+            constraints,
+            sorting,
+            skipped,
+            limitation,
+        } = query.toQueryOptions();
+
+        // Execute find, on the write connection so that the row is not read from a lagging replica
+        const result = await this.database.find(
+            source,
+            columns,
+            relations,
+            constraints,
+            sorting,
+            skipped,
+            limitation,
+            DatabaseWrite,
+        );
+
+        // Check if the object still exists
+        if (result.length === 0)
+            throw new Error(Error.Code.ForbiddenOperation, `Object \`${classType.className}\` with id \`${classInstance.id}\` not found`);
+
+        // Replace the keys with the stored keys
+        classInstance.keys = query.getClassFromKeys(result[0]).keys;
+        classInstance.syncOriginal();
+
+        // Return the object
+        return classInstance;
+    }
+
     /**
      * Destroy the object
      * @param classInstance
@@ -312,6 +975,70 @@ export default class ClassManager {
         // Validate instance
         enforce`${{ ClassToDestroy: classInstance }} as a ${{ Class }}`;
 
+        // Destroy the object, permanently if the class does not use soft deletes
+        await this.runDestroy(classInstance, !classInstance.statics().softDeletes, opts);
+    }
+
+    public async forceDestroy<C extends Class, U extends User | undefined>(classInstance: C, opts: ClassOptions<U> = {}) {
+        // Validate instance
+        enforce`${{ ClassToDestroy: classInstance }} as a ${{ Class }}`;
+
+        // Destroy the object permanently
+        await this.runDestroy(classInstance, true, opts);
+    }
+
+    /**
+     * Destroy the objects that match, inside a transaction
+     * @description Objects are fetched in pages, using the limit of the query as the page size.
+     * The beforeDestroy triggers are run for each object, and each page is destroyed with a single statement.
+     * @param query
+     * @param opts
+     * @returns the number of destroyed objects
+     */
+    public async destroyMany<C extends typeof Class, U extends User | undefined>(query: Query<C>, opts: ClassOptions<U> = {}): Promise<number> {
+        // Validate instance
+        enforce`${{ QueryToDestroy: query }} as a ${{ Query }}`;
+
+        // Get definition
+        const classType = query.class;
+        const definition = ClassDefinitionManager.get(classType);
+        const beforeDestroyTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeDestroy);
+        const afterDestroyTriggers = definition.triggers.filter(trigger => trigger.type === TriggerAfterDestroy);
+
+        return await this.transaction(async tx => {
+            let destroyed = 0;
+
+            for await (const page of tx.paginate(query, opts)) {
+                // Run all beforeDestroy triggers of each object
+                const objects = page.toList();
+                for (const object of objects)
+                    for (const trigger of beforeDestroyTriggers) await trigger.action.apply(object, [ tx, opts ]);
+
+                // Execute destroy query, permanently if the class does not use soft deletes
+                const ids = objects.map(object => object.id);
+                if (classType.softDeletes) await tx.database.destroyMany(classType.className, new KeyMap, ids);
+                else await tx.database.forceDestroyMany(classType.className, ids);
+                destroyed += ids.length;
+
+                // Run all afterDestroy triggers in the background
+                for (const object of objects) {
+                    tx.runInBackground(async classes => {
+                        for (const trigger of afterDestroyTriggers) await trigger.action.apply(object, [ classes, opts ]);
+                    });
+                }
+            }
+
+            return destroyed;
+        });
+    }
+
+    /**
+     * Destroy the object, along with its triggers
+     * @param classInstance
+     * @param permanent whether the row is deleted instead of soft deleted
+     * @param opts
+     */
+    private async runDestroy<C extends Class, U extends User | undefined>(classInstance: C, permanent: boolean, opts: ClassOptions<U>) {
         // Get definition
         const definition = ClassDefinitionManager.get(classInstance.statics());
 
@@ -319,24 +1046,206 @@ export default class ClassManager {
         const beforeDestroyTriggers = definition.triggers.filter(trigger => trigger.type === TriggerBeforeDestroy);
         for (const trigger of beforeDestroyTriggers) await trigger.action.apply(classInstance, [this, opts]);
 
-        // Get key map
-        const keys = this.getKeyMapFrom(classInstance);
-
         // Execute destroy query
-        await this.database.destroy(classInstance.statics().className, keys, classInstance.id);
+        if (permanent) await this.database.forceDestroy(classInstance.statics().className, classInstance.id);
+        else await this.database.destroy(classInstance.statics().className, this.getKeyMapFrom(classInstance), classInstance.id);
 
         // Run all afterDestroy triggers in the background
         const afterDestroyTriggers = definition.triggers.filter(trigger => trigger.type === TriggerAfterDestroy);
-        (async () => {
-            try {
-                for (const trigger of afterDestroyTriggers) await trigger.action.apply(classInstance, [this, opts]);
-            } catch (err) { /* do nothing */ }
-        })();
+        this.runInBackground(async classes => {
+            for (const trigger of afterDestroyTriggers) await trigger.action.apply(classInstance, [classes, opts]);
+        });
 
         // Return immediately
         return;
     }
 
+    public async restore<C extends Class>(classInstance: C): Promise<C> {
+        // Validate instance
+        enforce`${{ ClassToRestore: classInstance }} as a ${{ Class }}`;
+
+        // Check if the object can be restored
+        const classType = classInstance.statics<typeof Class>();
+        if (!classType.softDeletes)
+            throw new Error(Error.Code.ForbiddenOperation, `\`${classType.className}\` does not use soft deletes`);
+        else if (classInstance.isNew)
+            throw new Error(Error.Code.ForbiddenOperation, `Cannot restore a new \`${classType.className}\``);
+
+        // Remove the deletion timestamp
+        const updated = await this.database.update(classType.className, new KeyMap({ [DeletedAt]: null }), classInstance.id);
+
+        // Check if the object exists
+        if (updated === 0)
+            throw new Error(Error.Code.ForbiddenOperation, `Object \`${classType.className}\` with id \`${classInstance.id}\` not found`);
+
+        // Return the object
+        return classInstance;
+    }
+
+    /**
+     * Get a `belongsToMany` relation of the object
+     * @param classInstance
+     * @param key
+     */
+    private getBelongsToMany<C extends Class>(classInstance: C, key: string) {
+        // Validate instance
+        enforce`${{ ClassToLink: classInstance }} as a ${{ Class }}`;
+
+        // Check if the object has been saved
+        if (classInstance.isNew)
+            throw new Error(Error.Code.ForbiddenOperation, `Cannot link objects to a new \`${classInstance.statics().className}\``);
+
+        // Get definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+        const belongsToMany = definition.belongsToMany[key];
+
+        // Check if the relation exists
+        if (typeof belongsToMany === 'undefined')
+            throw new Error(Error.Code.InvalidObjectKey, `Relation \`${key}\` is not a \`belongsToMany\` relation of \`${classInstance.statics().className}\``);
+
+        return belongsToMany;
+    }
+
+    /**
+     * Get the ids of the related objects
+     * @param belongsToMany
+     * @param related objects or ids
+     */
+    private getRelatedIds(belongsToMany: BelongsToManyDefinition<typeof Class>, related: Array<Class | ClassId>): ClassId[] {
+        const ids = related.map(item => {
+            // Check if the item is an id
+            if (typeof item === 'number' || typeof item === 'string') return item;
+
+            // Check if the item is a saved object of the related class
+            if (!(item instanceof belongsToMany.class) || item.isNew)
+                throw new Error(Error.Code.ForbiddenOperation, `Related objects must be saved objects of \`${belongsToMany.class.className}\``);
+
+            return item.id;
+        });
+
+        // Remove duplicates
+        return ids.filter((id, index) => ids.findIndex(other => String(other) === String(id)) === index);
+    }
+
+    /**
+     * Link objects to a `belongsToMany` relation of the object
+     * @description Objects that are already linked are skipped
+     * @param classInstance
+     * @param key
+     * @param related objects or ids
+     */
+    public async attach<C extends Class>(classInstance: C, key: string, related: Array<Class | ClassId>): Promise<void> {
+        // Get relation
+        const belongsToMany = this.getBelongsToMany(classInstance, key);
+        const className = classInstance.statics().className;
+        const foreignKey = belongsToMany.foreignKeyOf(className);
+
+        // Get the ids that are not linked yet
+        const links = await this.getLinks(belongsToMany, className, [ classInstance.id ]);
+        const linked = links.map(([ , relatedId ]) => String(relatedId));
+        const ids = this.getRelatedIds(belongsToMany, related).filter(id => !linked.includes(String(id)));
+
+        // Insert the links
+        const rows = ids.map(id => new KeyMap({ [foreignKey]: classInstance.id, [belongsToMany.relatedKey]: id }));
+        await this.database.attach(belongsToMany.through, rows);
+    }
+
+    /**
+     * Unlink objects from a `belongsToMany` relation of the object
+     * @param classInstance
+     * @param key
+     * @param related objects or ids, unlinks every object if not provided
+     */
+    public async detach<C extends Class>(classInstance: C, key: string, related?: Array<Class | ClassId>): Promise<void> {
+        // Get relation
+        const belongsToMany = this.getBelongsToMany(classInstance, key);
+        const { through, relatedKey } = belongsToMany;
+        const foreignKey = belongsToMany.foreignKeyOf(classInstance.statics().className);
+
+        // Prepare constraints
+        const constraints = new ConstraintMap;
+        constraints.set(Relation.formatKey(through, foreignKey), Constraints.EqualTo, classInstance.id);
+
+        if (typeof related !== 'undefined') {
+            // Check if there is anything to unlink
+            const ids = this.getRelatedIds(belongsToMany, related);
+            if (ids.length === 0) return;
+            constraints.set(Relation.formatKey(through, relatedKey), Constraints.ContainedIn, ids);
+        }
+
+        // Delete the links
+        await this.database.detach(through, constraints);
+    }
+
+    /**
+     * Link the object to exactly the given objects, inside a transaction
+     * @param classInstance
+     * @param key
+     * @param related objects or ids
+     */
+    public async sync<C extends Class>(classInstance: C, key: string, related: Array<Class | ClassId>) {
+        // Get relation
+        const belongsToMany = this.getBelongsToMany(classInstance, key);
+        const ids = this.getRelatedIds(belongsToMany, related);
+
+        return await this.transaction(async tx => {
+            // Get the current links
+            const links = await tx.getLinks(belongsToMany, classInstance.statics().className, [ classInstance.id ]);
+            const linked = links.map(([ , relatedId ]) => relatedId);
+
+            // Determine which links to add and remove
+            const attached = ids.filter(id => !linked.some(other => String(other) === String(id)));
+            const detached = linked.filter(id => !ids.some(other => String(other) === String(id)));
+
+            // Update the links
+            if (detached.length > 0) await tx.detach(classInstance, key, detached);
+            if (attached.length > 0) await tx.attach(classInstance, key, attached);
+
+            return { attached, detached };
+        });
+    }
+
+    /**
+     * Run actions inside a transaction
+     * @description Statements run on a single connection, and are committed once the callback resolves,
+     * or rolled back if it throws. `afterSave` and `afterDestroy` triggers run after the commit.
+     * Until the callback ends, statements of this manager, i.e. inside triggers, also run inside the transaction.
+     * @param callback receives the transactional class manager
+     */
+    public async transaction<T>(callback: (tx: ClassManager) => Promise<T>): Promise<T> {
+        // If already inside a transaction, including one that this manager began in the current async context, reuse it
+        const current = typeof this.deferred !== 'undefined' ? this : this.getTransaction();
+        if (typeof current !== 'undefined') return await callback(current);
+
+        // Begin the transaction
+        const database = await this.database.transaction();
+
+        // Prepare the transactional class manager
+        const tx = new ClassManager(database);
+        tx.classes = this.classes;
+        tx.deferred = [];
+
+        // Run the callback, in a context where the statements of this manager join the transaction
+        const context: TransactionContext = { database: this.adapter, tx, open: true };
+        let result: T;
+        try {
+            result = await transactions.run(context, () => callback(tx));
+        } catch (err) {
+            context.open = false;
+            await database.rollback();
+            throw err;
+        }
+        context.open = false;
+
+        // Commit the transaction
+        await database.commit();
+
+        // Run the deferred actions
+        for (const action of tx.deferred) this.runInBackground(action);
+
+        return result;
+    }
+
     /**
      * Generates a batch loader function
      * Compatible with the `dataloader` library of Facebook
@@ -6,7 +6,7 @@ import Relation, { RelationDefinition } from './relation';
 import CompoundKey from '../../utils/compound-key';
 import { ClassId, ClassKeys, ClassJSON } from '../../types/class';
 import DateKey from './keys/types/date';
-import { RelationsMap } from '../../types/relations';
+import { RelationsMap, HasManyMap, BelongsToManyMap } from '../../types/relations';
 import { TriggersList } from '../../types/triggers';
 import { Increment, JsonAction } from './specials';
 
@@ -14,23 +14,31 @@ export const ClassDefinitionSymbol = Symbol.for('warp-server:class-definition');
 
 export interface ClassDefinition {
     keys: string[];
+    types: { [key: string]: string };
     timestamps: string[];
     relations: RelationsMap;
+    hasMany: HasManyMap;
+    belongsToMany: BelongsToManyMap;
     triggers: TriggersList;
     hidden: string[];
     guarded: string[];
     computed: string[];
+    version?: string;
 }
 
 export interface ClassDefinitionOptions {
     className?: string;
     source?: string;
+    softDeletes?: boolean;
 }
 
 const DefaultClassDefinition = {
     keys: [],
+    types: {},
     timestamps: Object.values(InternalTimestamps),
     relations: {},
+    hasMany: {},
+    belongsToMany: {},
     triggers: [],
     hidden: [],
     guarded: [],
@@ -47,12 +55,16 @@ export class ClassDefinitionManager {
         // Get immutable copy of class definition
         return  {
             keys: definition.keys.slice(),
+            types: { ...definition.types },
             timestamps: definition.timestamps.slice(),
             relations: { ...definition.relations },
+            hasMany: { ...definition.hasMany },
+            belongsToMany: { ...definition.belongsToMany },
             triggers: definition.triggers.slice(),
             hidden: definition.hidden.slice(),
             guarded: definition.guarded.slice(),
             computed: definition.computed.slice(),
+            version: definition.version,
         };
     }
 
@@ -63,11 +75,11 @@ export class ClassDefinitionManager {
 }
 
 /**
- * Extend Class with className and source
+ * Extend Class with className, source and softDeletes
  */
 const ClassDecorator = (opts: ClassDefinitionOptions) => {
     // Get options
-    const { className, source } = opts;
+    const { className, source, softDeletes } = opts;
 
     // Return decorator
     return <T extends { new(...args: any[]): Class }>(constructor: T) => {
@@ -82,6 +94,10 @@ const ClassDecorator = (opts: ClassDefinitionOptions) => {
                 return source || this.className;
             }
 
+            static get softDeletes() {
+                return typeof softDeletes !== 'undefined' ? softDeletes : (constructor as any as typeof Class).softDeletes;
+            }
+
         }
 
         // Return defined class
@@ -94,6 +110,7 @@ const ClassDecorator = (opts: ClassDefinitionOptions) => {
  * @description Defines and initializes the class
  * @param {String} className
  * @param {String} source
+ * @param {Boolean} softDeletes
  */
 export function define<C extends { new(...args: any[]): Class }>(constructor: C): any;
 export function define<C extends { new(...args: any[]): Class }>(opts: ClassDefinitionOptions): (constructor: C) => any;
@@ -106,6 +123,31 @@ export function define<C extends { new(...args: any[]): Class }>(...args: [Class
     }
 }
 
+/**
+ * Copy a key value, so that changes made to objects and arrays in-place can be detected
+ * @param {*} value
+ */
+const copyValue = (value: any) => {
+    if (value instanceof Array || (value !== null && typeof value === 'object' && value.constructor === Object))
+        return JSON.parse(JSON.stringify(value));
+    else return value;
+};
+
+/**
+ * Check if two key values are the same
+ * @param {*} value
+ * @param {*} otherValue
+ */
+const isSameValue = (value: any, otherValue: any): boolean => {
+    if (value instanceof Class && otherValue instanceof Class)
+        return value.statics().className === otherValue.statics().className && value.id === otherValue.id;
+    else if (value instanceof Date && otherValue instanceof Date)
+        return value.getTime() === otherValue.getTime();
+    else if (value instanceof Array || (value !== null && typeof value === 'object' && value.constructor === Object))
+        return JSON.stringify(value) === JSON.stringify(otherValue);
+    else return value === otherValue;
+};
+
 /**
  * Class
  */
@@ -114,6 +156,8 @@ export default class Class {
     public newIdentifier?: ClassId;
     public identifier: ClassId;
     public keys: KeyMap = new KeyMap;
+    public collections: KeyMap = new KeyMap;
+    private originalKeys: KeyMap = new KeyMap;
 
     /**
      * Constructor
@@ -121,30 +165,11 @@ export default class Class {
      * @param {Number} id
      */
     constructor(keys: ClassId | ClassKeys = {}) {
-        // Get definition
-        const definition = ClassDefinitionManager.get(this.statics());
-
         // If 'keys' is an id, set the id
         if (typeof keys === 'number') {
             this.identifier = keys;
         } else if (typeof keys === 'object') {
-            // Iterate through each param
-            for (const [key, value] of Object.entries(keys)) {
-                // Check if key exists
-                if (!this.statics().has(key))
-                    throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` does not exist in '${this.statics().className}'`);
-
-                // If the key is an id, set the id
-                // Else, set the value
-                if (key === InternalId)
-                    this.identifier = value;
-                else if (definition.guarded.includes(key))
-                    throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` of \`${this.statics().className}\` cannot be mass assigned because it is guarded`);
-                else if (definition.computed.includes(key))
-                    throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` of \`${this.statics().className}\` cannot be mass assigned because it is computed`);
-                else
-                    this[toCamelCase(key)] = value;
-            }
+            this.fill(keys);
         } else throw new Error(Error.Code.ForbiddenOperation, `\`keys\` must be an object or an id`);
     }
 
@@ -157,6 +182,10 @@ export default class Class {
         return this.className;
     }
 
+    static get softDeletes(): boolean {
+        return true;
+    }
+
     /**
      * @description Check if provided key exists for the class
      * @param {String} key
@@ -172,9 +201,55 @@ export default class Class {
         else if (key === InternalId) return true;
         else if (definition.timestamps.includes(key)) return true;
         else if (definition.keys.includes(key)) return true;
+        else if (this.hasForeignKey(key)) return true;
         else return false;
     }
 
+    /**
+     * @description Check if the key is hidden from the JSON of the objects, including the keys of relations, i.e. `owner.password`
+     * @param {String} key
+     */
+    public static isHidden(key: string): boolean {
+        // Class definition
+        const definition = ClassDefinitionManager.get(this);
+
+        // Check if the key is compound
+        if (CompoundKey.isUsedBy(key)) {
+            return CompoundKey.from(key).some(k => this.isHidden(k));
+        } else if (Relation.isUsedBy(key) && this.hasRelationKey(key)) {
+            const [ relationName, relationKey ] = Relation.parseKey(key);
+            return definition.hidden.includes(relationName) || definition.relations[relationName].toRelation().class.isHidden(relationKey);
+        }
+
+        // Foreign keys are hidden along with their relation
+        const foreignKeyRelation = this.getForeignKeyRelation(key);
+        return definition.hidden.includes(typeof foreignKeyRelation !== 'undefined' ? foreignKeyRelation : key);
+    }
+
+    /**
+     * @description Check if the key is the foreign key of a relation, i.e. `owner_id`
+     * @param {String} key
+     */
+    public static hasForeignKey(key: string): boolean {
+        // Check if a relation owned by the class uses the key
+        return typeof this.getForeignKeyRelation(key) !== 'undefined';
+    }
+
+    /**
+     * @description Get the name of the relation that uses the key as its foreign key, i.e. `owner` for `owner_id`
+     * @param {String} key
+     */
+    public static getForeignKeyRelation(key: string): string | undefined {
+        // Class definition
+        const definition = ClassDefinitionManager.get(this);
+
+        // Find the relation owned by the class that uses the key
+        return Object.keys(definition.relations).find(name => {
+            const relation = definition.relations[name].toRelation();
+            return !relation.secondary && relation.sourceKey === key;
+        });
+    }
+
     public static hasRelationKey(key: string) {
         // Check if key parts are valid
         if (!Relation.isValid(key)) return false;
@@ -241,6 +316,42 @@ export default class Class {
         throw new Error(Error.Code.ForbiddenOperation, 'Cannot manually set the `deletedAt` key');
     }
 
+    /**
+     * Mass assign keys, except for those that are guarded or computed
+     * @param keys
+     */
+    public fill(keys: ClassKeys): this {
+        // Get definition
+        const definition = ClassDefinitionManager.get(this.statics());
+
+        // Iterate through each param
+        for (const [key, value] of Object.entries(keys)) {
+            // Check if key exists
+            if (!this.statics().has(key))
+                throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` does not exist in '${this.statics().className}'`);
+
+            // Get the relation of a foreign key, i.e. `owner` for `owner_id`
+            const relationName = this.statics().getForeignKeyRelation(key);
+            const name = typeof relationName !== 'undefined' ? relationName : key;
+
+            // If the key is an id, set the id
+            // If the key is a foreign key, set its relation
+            // Else, set the value
+            if (key === InternalId)
+                this.identifier = value;
+            else if (definition.guarded.includes(name))
+                throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` of \`${this.statics().className}\` cannot be mass assigned because it is guarded`);
+            else if (definition.computed.includes(name))
+                throw new Error(Error.Code.ForbiddenOperation, `Key \`${key}\` of \`${this.statics().className}\` cannot be mass assigned because it is computed`);
+            else if (typeof relationName !== 'undefined' && value !== null && typeof value !== 'object')
+                this[toCamelCase(relationName)] = definition.relations[relationName].toRelation().class.withId(value);
+            else
+                this[toCamelCase(name)] = value;
+        }
+
+        return this;
+    }
+
     /**
      * Set `id` for new objects
      * @param id
@@ -262,7 +373,7 @@ export default class Class {
                 `Key to be incremented \`${key}\` does not exist in \`${this.statics().className}\``);
 
         // Set key to an increment value
-        this[key] = Increment.by(value);
+        this[toCamelCase(key)] = Increment.by(value);
     }
 
     /**
@@ -278,15 +389,50 @@ export default class Class {
                 `Key to be incremented \`${key}\` does not exist in \`${this.statics().className}\``);
 
         return {
-            set(path: string, value: any) {
-                this[key] = new JsonAction(SetJsonTypeName, key, path, value);
+            set: (path: string, value: any) => {
+                this[toCamelCase(key)] = new JsonAction(SetJsonTypeName, key, path, value);
             },
-            append(path: string, value: any) {
-                this[key] = new JsonAction(AppendJsonTypeName, key, path, value);
+            append: (path: string, value: any) => {
+                this[toCamelCase(key)] = new JsonAction(AppendJsonTypeName, key, path, value);
             },
         };
     }
 
+    /**
+     * Check if a key has changed since the object was fetched or saved
+     * @param {String} key, or any key if not provided
+     */
+    public isDirty(key?: string): boolean {
+        if (typeof key === 'undefined') return Object.keys(this.getChanges()).length > 0;
+        else return !isSameValue(this.keys.get(key), this.originalKeys.get(key));
+    }
+
+    /**
+     * Get the keys that have changed since the object was fetched or saved
+     */
+    public getChanges(): ClassKeys {
+        return this.keys.toArray().reduce((changes, [ key, value ]) => {
+            if (this.isDirty(key)) changes[key] = value;
+            return changes;
+        }, {});
+    }
+
+    /**
+     * Get the value of a key when the object was fetched or saved
+     * @param {String} key
+     */
+    public getOriginal(key: string): any {
+        return this.originalKeys.get(key);
+    }
+
+    /**
+     * Set the current keys as the original keys
+     * @description Executed every time the object is fetched or saved
+     */
+    public syncOriginal() {
+        this.originalKeys = new KeyMap(this.keys.toArray().reduce((keys, [ key, value ]) => ({ ...keys, [key]: copyValue(value) }), {}));
+    }
+
     /**
      * toSqlString
      * @description Executed every time the object is being saved to the database
@@ -324,6 +470,11 @@ export default class Class {
             keys[key] = value;
         }
 
+        // Iterate through each loaded collection
+        for (const [ key, collection ] of this.collections.toArray()) {
+            if (!classDefinition.hidden.includes(key)) keys[key] = collection.toJSON();
+        }
+
         // If class is a relation, use attributes
         if (type === 'relation') {
             body = {
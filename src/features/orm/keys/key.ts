@@ -70,8 +70,8 @@ export const keyDecorator = (opts: KeyOptions = {}) => {
         // Infer data type
         const inferredType = Reflect.getMetadata('design:type', classInstance, name);
 
-        // Get type from metadata
-        if (typeof inferredType !== 'undefined') type = inferredType.name.toLowerCase();
+        // Get type from metadata, unless it was defined manually
+        if (typeof type === 'undefined' && typeof inferredType !== 'undefined') type = inferredType.name.toLowerCase();
 
         // Get definition
         const definition = ClassDefinitionManager.get(classInstance.statics());
@@ -96,7 +96,14 @@ export const keyDecorator = (opts: KeyOptions = {}) => {
             const [ parentClassName, parentKey ] = Relation.parseKey(to);
 
             // Prepare relation definition
-            const relationDefinition = new RelationDefinition(() => inferredType, sourceClassName, sourceKey, parentClassName, parentKey);
+            const relationDefinition = new RelationDefinition(
+                () => inferredType,
+                sourceClassName,
+                sourceKey,
+                parentClassName,
+                parentKey,
+                () => classInstance.statics(),
+            );
 
             // Prepare key manager
             keyManager = RelationKey(keyName, relationDefinition);
@@ -105,6 +112,9 @@ export const keyDecorator = (opts: KeyOptions = {}) => {
             definition.relations[keyName] = relationDefinition;
         }
 
+        // Set the type of the key
+        definition.types[keyName] = keyManager.type;
+
         // Set definition
         ClassDefinitionManager.set(classInstance.statics(), definition);
 
@@ -0,0 +1,20 @@
+import Class, { ClassDefinitionManager } from '../../class';
+import { toSnakeCase } from '../../../../utils/format';
+import Error from '../../../../utils/error';
+
+/**
+ * Sets the property as the version of the class, which is used for optimistic locking
+ * @param classInstance
+ * @param name
+ */
+export const version = <C extends Class>(classInstance: C, name: string): any => {
+    // Get key name
+    const keyName = toSnakeCase(name);
+
+    // Set definition
+    const definition = ClassDefinitionManager.get(classInstance.statics());
+    if (typeof definition.version !== 'undefined' && definition.version !== keyName)
+        throw new Error(Error.Code.MissingConfiguration, `Key \`${keyName}\` cannot be a \`version\` key because \`${definition.version}\` already is`);
+    definition.version = keyName;
+    ClassDefinitionManager.set(classInstance.statics(), definition);
+};
@@ -0,0 +1,43 @@
+import enforce from 'enforce-js';
+import Class, { ClassDefinitionManager } from '../../class';
+import { BelongsToManyDefinition } from '../../relation';
+import { toSnakeCase } from '../../../../utils/format';
+import Error from '../../../../utils/error';
+import { ClassCaller, BelongsToManyOptions } from '../../../../types/relations';
+
+/**
+ * Defines a collection of related objects, which are linked through a pivot table
+ * @description The collection is only loaded when the key is included in a query
+ * @param classDefinition
+ * @param options
+ */
+export const belongsToMany = <R extends typeof Class>(classDefinition: ClassCaller<R>, options: BelongsToManyOptions) => {
+    // Enforce
+    enforce`${{ through: options.through }} as a string`;
+    enforce`${{ foreignKey: options.foreignKey }} as an optional string`;
+    enforce`${{ relatedKey: options.relatedKey }} as an optional string`;
+
+    return <C extends Class>(classInstance: C, name: string): any => {
+        // Get key name
+        const keyName = toSnakeCase(name);
+
+        // Set definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+        definition.belongsToMany[keyName] = new BelongsToManyDefinition(classDefinition, options);
+        ClassDefinitionManager.set(classInstance.statics(), definition);
+
+        // Extend getter and setter
+        Object.defineProperty(classInstance, name, {
+            set(value) {
+                // Prevent setting data
+                throw new Error(Error.Code.InvalidObjectKey, `Key \`${keyName}\` cannot be set because it is a \`belongsToMany\` relation`);
+            },
+            get() {
+                // Return the loaded collection, if any
+                return this.collections.get(keyName);
+            },
+            enumerable: true,
+            configurable: true,
+        });
+    };
+};
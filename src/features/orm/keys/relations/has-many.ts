@@ -0,0 +1,37 @@
+import Class, { ClassDefinitionManager } from '../../class';
+import { HasManyDefinition } from '../../relation';
+import { toSnakeCase } from '../../../../utils/format';
+import Error from '../../../../utils/error';
+import { ClassCaller } from '../../../../types/relations';
+
+/**
+ * Defines a collection of child objects, whose foreign key matches the `id` of the class
+ * @description The collection is only loaded when the key is included in a query
+ * @param classDefinition
+ * @param foreignKey
+ */
+export const hasMany = <R extends typeof Class>(classDefinition: ClassCaller<R>, foreignKey: string) => {
+    return <C extends Class>(classInstance: C, name: string): any => {
+        // Get key name
+        const keyName = toSnakeCase(name);
+
+        // Set definition
+        const definition = ClassDefinitionManager.get(classInstance.statics());
+        definition.hasMany[keyName] = new HasManyDefinition(classDefinition, foreignKey);
+        ClassDefinitionManager.set(classInstance.statics(), definition);
+
+        // Extend getter and setter
+        Object.defineProperty(classInstance, name, {
+            set(value) {
+                // Prevent setting data
+                throw new Error(Error.Code.InvalidObjectKey, `Key \`${keyName}\` cannot be set because it is a \`hasMany\` relation`);
+            },
+            get() {
+                // Return the loaded collection, if any
+                return this.collections.get(keyName);
+            },
+            enumerable: true,
+            configurable: true,
+        });
+    };
+};
@@ -15,9 +15,9 @@ export default function BooleanKey(name: string): KeyManager {
     };
 
     key.getterDefinition = value => {
-        // Get the date
+        // Get the boolean, which is stored as `1` or `0`, or as a native boolean by Postgres
         if (typeof value === 'undefined' || value === null) return value;
-        else return value === 1 ? true : false;
+        else return value === 1 || value === true;
     };
 
     return key;
@@ -19,7 +19,7 @@ export default function NumberKey(name: string, opts: NumberKeyOptions = {}): Ke
             if (!Increment.isImplementedBy(value))
                 throw new Error(Error.Code.InvalidObjectKey, `Key \`${name}\` is not a valid increment object`);
             else
-                return new Increment(name, value, min, max);
+                return new Increment(name, value.value, min, max);
         } else if (isNaN(value)) {
             // If the number is not valid, throw an error
             throw new Error(Error.Code.InvalidObjectKey, `Key \`${name}\` is not a valid number`);
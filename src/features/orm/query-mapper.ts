@@ -1,9 +1,75 @@
-import Relation from './relation';
+import Relation, { RelationDefinition } from './relation';
+import { ClassDefinitionManager } from './class';
 import { RelationsMap } from '../../types/relations';
+import { AggregateObject } from '../../types/database';
 import ConstraintMap, { Constraints } from '../../utils/constraint-map';
-import { SortDescending, SortAscending, SortSymbol, DeletedAt, InternalId } from '../../utils/constants';
+import { SortDescending, SortAscending, SortSymbol, DeletedAt, InternalId, RelationDelimiter, RelationAliasDelimiter, Trashed } from '../../utils/constants';
 import CompoundKey from '../../utils/compound-key';
 
+/**
+ * Copy a relation, so that it is joined using the given aliases
+ * @param {Relation} relation
+ * @param {String} sourceAlias
+ * @param {String} alias
+ */
+const getAliasedRelation = (relation: Relation, sourceAlias: string, alias: string) => {
+    const secondary = sourceAlias !== RelationDefinition.OwnerSymbol;
+    return new Relation(relation.class, sourceAlias, relation.sourceKey, alias, relation.parentKey, secondary);
+};
+
+/**
+ * Resolve a relation key through the chain of relations, i.e. `post.author.email`
+ * @description The first relation is aliased by its name, while deeper relations
+ * are aliased by their path, i.e. `post__author`, so that each join is unique
+ * @param {String} className
+ * @param {String} key
+ * @param {Object} relationsMap
+ */
+export const getRelationChain = (className: string, key: string, relationsMap: RelationsMap) => {
+    // Get the relation names and the key
+    const names = key.split(RelationDelimiter);
+    const keyName = names.pop() as string;
+
+    // Prepare relations
+    const relations: Array<[string, Relation]> = [];
+    let alias = RelationDefinition.OwnerSymbol;
+    let definitions = relationsMap;
+
+    // Iterate through each relation
+    for (const [ index, name ] of names.entries()) {
+        const relation = definitions[name].toRelation();
+        const path = names.slice(0, index);
+        let sourceAlias = alias;
+
+        // Join the parent of a secondary relation first, since it has the foreign key
+        if (relation.secondary) {
+            const parentAlias = [ ...path, relation.sourceClassName ].join(RelationAliasDelimiter);
+            relations.push([ parentAlias, getAliasedRelation(definitions[relation.sourceClassName].toRelation(), alias, parentAlias) ]);
+            sourceAlias = parentAlias;
+        }
+
+        // Join the relation
+        alias = [ ...path, name ].join(RelationAliasDelimiter);
+        relations.push([ alias, getAliasedRelation(relation, sourceAlias, alias) ]);
+        definitions = ClassDefinitionManager.get(relation.class).relations;
+    }
+
+    // If the key provided is an `id`, use the foreign key instead
+    // (i.e. no need to use left join for `id` keys)
+    const [ , lastRelation ] = relations[relations.length - 1];
+    if (keyName === InternalId && lastRelation.parentKey === InternalId) {
+        relations.pop();
+        return { column: lastRelation.sourceClassKey(className), relations };
+    }
+
+    // Check if the key is a relation of the last class
+    const keyRelationDefinition = definitions[keyName];
+    if (typeof keyRelationDefinition !== 'undefined' && !keyRelationDefinition.toRelation().secondary)
+        return { column: Relation.formatKey(alias, keyRelationDefinition.toRelation().sourceKey), relations };
+
+    return { column: Relation.formatKey(alias, keyName), relations };
+};
+
 /**
  * Get columns
  */
@@ -26,7 +92,7 @@ export const getColumnsFrom = (className: string, keys: string[], relationsMap:
         }
 
         // Set source key
-        const sourceKey = Relation.isUsedBy(key) ? key : Relation.formatKey(className, key);
+        const sourceKey = Relation.isUsedBy(key) ? getRelationChain(className, key, relationsMap).column : Relation.formatKey(className, key);
 
         // Set column values
         columns.set(sourceKey, key);
@@ -35,11 +101,27 @@ export const getColumnsFrom = (className: string, keys: string[], relationsMap:
     return columns;
 };
 
+/**
+ * Get aggregates, with their keys in the column format
+ */
+export const getAggregatesFrom = (className: string, aggregates: Map<string, AggregateObject>, relationsMap: RelationsMap) => {
+    // Prepare aggregates
+    const sourceAggregates: Map<string, AggregateObject> = new Map([]);
+
+    // Iterate through aggregates
+    for (const [ alias, { type, key } ] of aggregates.entries()) {
+        const [ sourceKey ] = [ ...getColumnsFrom(className, [ key ], relationsMap).keys() ];
+        sourceAggregates.set(alias, { type, key: sourceKey });
+    }
+
+    return sourceAggregates;
+};
+
 /**
  * Get relations
  * @param keys
  */
-export const getRelationsFrom = (keys: string[], relationsMap: RelationsMap) => {
+export const getRelationsFrom = (className: string, keys: string[], relationsMap: RelationsMap) => {
     // Prepare relations
     const relations: Map<string, Relation> = new Map([]);
 
@@ -47,28 +129,18 @@ export const getRelationsFrom = (keys: string[], relationsMap: RelationsMap) =>
     for (const key of keys) {
         // Check if the key is a key from a relation
         if (Relation.isUsedBy(key)) {
-            // Get alias
-            const [ sourceClassName, sourceKeyName ] = Relation.parseKey(key);
-
-            // Get relation
-            const keyRelationDefinition = relationsMap[sourceClassName];
-            const relation = keyRelationDefinition.toRelation();
-
-            // If the key provided is an `id`, skip it to optimize the query
-            // (i.e. no need to use left join for `id` keys)
-            if (sourceKeyName === InternalId) {
-                continue;
-            } else if (relation.secondary) {
-                // Get parent relation
-                const parentDefinition = relationsMap[relation.sourceClassName];
-                const parentRelation = parentDefinition.toRelation();
-                relations.set(relation.sourceClassName, parentRelation);
-            }
-
-            // Add relation
-            relations.set(sourceClassName, relation);
+            // Add the relations along the chain
+            for (const [ alias, relation ] of getRelationChain(className, key, relationsMap).relations)
+                relations.set(alias, relation);
             continue;
         }
+
+        // Check if the key is a secondary relation, whose foreign key comes from its parent relation
+        const relationDefinition = relationsMap[key];
+        if (typeof relationDefinition !== 'undefined') {
+            const relation = relationDefinition.toRelation();
+            if (relation.secondary) relations.set(relation.sourceClassName, relationsMap[relation.sourceClassName].toRelation());
+        }
     }
 
     return relations;
@@ -78,39 +150,55 @@ export const getRelationsFrom = (keys: string[], relationsMap: RelationsMap) =>
  * Get the constraint key format of the supplied key
  * @param {String} key
  */
-const getConstraintFrom = (className: string, key: string) => {
+const getConstraintFrom = (className: string, key: string, relationsMap: RelationsMap) => {
     // Check if the key is for a relation
-    if (Relation.isUsedBy(key)) return key;
+    if (Relation.isUsedBy(key)) return getRelationChain(className, key, relationsMap).column;
     else return Relation.formatKey(className, key);
 };
 
 /**
- * Determine constraints
- * @param prefix
+ * Change the keys of the constraints, including those inside groups, into their constraint key format
+ * @param {String} className
+ * @param {ConstraintMap} where
  */
-export const getConstraintsFrom = (className: string, constraints: ConstraintMap)  => {
-    // Create a new instance of where
-    const where = new ConstraintMap(constraints.toJSON());
-
-    // Remove deleted rows
-    where.set(DeletedAt, Constraints.Exists, false);
-
+const formatConstraintKeys = (className: string, where: ConstraintMap, relationsMap: RelationsMap) => {
     // Iterate through keys
     for (const key of where.keys) {
         // Check if key is compound
         if (CompoundKey.isUsedBy(key)) {
-            const keys = CompoundKey.from(key).map(k => getConstraintFrom(className, k));
+            const keys = CompoundKey.from(key).map(k => getConstraintFrom(className, k, relationsMap));
             where.changeKey(key, CompoundKey.toString(keys));
-        } else where.changeKey(key, getConstraintFrom(className, key));
+        } else where.changeKey(key, getConstraintFrom(className, key, relationsMap));
     }
 
+    // Iterate through groups
+    for (const group of where.groups)
+        for (const map of group.maps) formatConstraintKeys(className, map, relationsMap);
+};
+
+/**
+ * Determine constraints
+ * @param prefix
+ * @param trashed whether deleted rows are excluded, included, or the only ones matched
+ */
+export const getConstraintsFrom = (className: string, constraints: ConstraintMap, relationsMap: RelationsMap, trashed: string = Trashed.Without)  => {
+    // Create a new instance of where
+    const where = new ConstraintMap(constraints.toJSON());
+
+    // Remove deleted rows, or keep only those
+    if (trashed === Trashed.Without) where.set(DeletedAt, Constraints.Exists, false);
+    else if (trashed === Trashed.Only) where.set(DeletedAt, Constraints.Exists, true);
+
+    // Format keys
+    formatConstraintKeys(className, where, relationsMap);
+
     return where;
 };
 
 /**
  * Get sorting
  */
-export function getSortingFrom(className: string, sort: string[]) {
+export function getSortingFrom(className: string, sort: string[], relationsMap: RelationsMap) {
     // Prepare sorting
     const sorting: string[] = [];
 
@@ -121,8 +209,11 @@ export function getSortingFrom(className: string, sort: string[]) {
         let key = order === SortDescending ? sortKey.slice(1) : sortKey;
 
         // Add className to sort key if it is not a relation
+        // Otherwise, use the column of the relation key
         if (!Relation.isUsedBy(key))
             key = `${order === SortDescending ? SortSymbol : ''}${Relation.formatKey(className, key)}`;
+        else
+            key = `${order === SortDescending ? SortSymbol : ''}${getRelationChain(className, key, relationsMap).column}`;
 
         // Push the key
         sorting.push(key);
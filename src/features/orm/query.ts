@@ -1,22 +1,31 @@
 import enforce from 'enforce-js';
 import Class, { ClassDefinitionManager } from './class';
+import Relation from './relation';
 import KeyMap from '../../utils/key-map';
 import Error from '../../utils/error';
-import { InternalKeys, Defaults, InternalId } from '../../utils/constants';
-import ConstraintMap, { Constraints } from '../../utils/constraint-map';
+import { CollectionCursors } from '../../utils/collection';
+import { InternalKeys, Defaults, InternalId, Aggregates, SortSymbol, RelationDelimiter, Trashed, DeletedAt } from '../../utils/constants';
+import ConstraintMap, { Constraints, ConstraintGroups } from '../../utils/constraint-map';
+import Cursor, { CursorObject } from '../../utils/cursor';
 import { toDatabaseDate, toSnakeCase } from '../../utils/format';
-import { QueryOptionsType } from '../../types/database';
-import { getColumnsFrom, getRelationsFrom, getConstraintsFrom, getSortingFrom } from './query-mapper';
+import { QueryOptionsType, AggregateOptionsType, AggregateObject, RelatedSubqueryType } from '../../types/database';
+import { getColumnsFrom, getRelationsFrom, getConstraintsFrom, getSortingFrom, getAggregatesFrom } from './query-mapper';
 
 export default class Query<T extends typeof Class> {
 
     private classType: typeof Class;
     private selection: string[] = [];
     private included: string[] = [];
+    private includedCollections: string[] = [];
     private constraints: ConstraintMap = new ConstraintMap;
-    private sorting: string[] = Defaults.Query.Sort;
+    private sorting: string[] = [];
+    private aggregates: Map<string, AggregateObject> = new Map;
+    private groupings: string[] = [];
+    private havingConstraints: ConstraintMap = new ConstraintMap;
     private skipped: number = Defaults.Query.Skip;
     private limitation: number = Defaults.Query.Limit;
+    private cursor?: CursorObject & { before: boolean };
+    private trashed: string = Trashed.Without;
 
     constructor(classType: T) {
         this.classType = classType;
@@ -46,10 +55,119 @@ export default class Query<T extends typeof Class> {
         return this;
     }
 
+    /**
+     * Get the related class of a relation, and how it is linked to the class
+     * @param {String} key
+     */
+    private getRelatedSubquery(key: string): { relatedClass: typeof Class, subquery: Pick<RelatedSubqueryType, 'through' | 'correlations'> } {
+        // Get definition
+        const definition = ClassDefinitionManager.get(this.class);
+        const className = this.class.className;
+        const parentKey = Relation.formatKey(className, InternalId);
+
+        let relatedClass: typeof Class;
+        let subquery: Pick<RelatedSubqueryType, 'through' | 'correlations'>;
+        if (typeof definition.relations[key] !== 'undefined') {
+            const relation = definition.relations[key].toRelation();
+            relatedClass = relation.class;
+
+            if (relation.secondary) {
+                // Link through the table of the parent relation, i.e. `location` of `location.country`
+                const sourceRelation = definition.relations[relation.sourceClassName].toRelation();
+                subquery = {
+                    through: {
+                        source: [ sourceRelation.class.source, relation.sourceClassName ],
+                        on: [
+                            relation.sourceClassKey(className),
+                            Relation.formatKey(relatedClass.className, relation.parentKey),
+                        ],
+                    },
+                    correlations: [ [
+                        Relation.formatKey(relation.sourceClassName, sourceRelation.parentKey),
+                        sourceRelation.sourceClassKey(className),
+                    ] ],
+                };
+            } else subquery = {
+                correlations: [ [ Relation.formatKey(relatedClass.className, relation.parentKey), relation.sourceClassKey(className) ] ],
+            };
+        } else if (typeof definition.hasMany[key] !== 'undefined') {
+            const { foreignKey } = definition.hasMany[key];
+            relatedClass = definition.hasMany[key].class;
+            subquery = { correlations: [ [ Relation.formatKey(relatedClass.className, foreignKey), parentKey ] ] };
+        } else if (typeof definition.belongsToMany[key] !== 'undefined') {
+            const { through, relatedKey } = definition.belongsToMany[key];
+            relatedClass = definition.belongsToMany[key].class;
+            subquery = {
+                through: {
+                    source: [ through, through ],
+                    on: [ Relation.formatKey(through, relatedKey), Relation.formatKey(relatedClass.className, InternalId) ],
+                },
+                correlations: [ [ Relation.formatKey(through, definition.belongsToMany[key].foreignKeyOf(className)), parentKey ] ],
+            };
+        } else throw new Error(Error.Code.InvalidObjectKey, `Relation \`${key}\` does not exist in \`${className}\``);
+
+        // Check if the classes can be told apart inside the subquery
+        if (relatedClass.className === className)
+            throw new Error(Error.Code.ForbiddenOperation, `Relation \`${key}\` cannot be queried because it links \`${className}\` to itself`);
+
+        return { relatedClass, subquery };
+    }
+
+    /**
+     * Set a related subquery constraint
+     * @param {String} key
+     * @param {String} constraint
+     * @param {Object} subquery
+     */
+    private setRelatedSubquery(key: string, constraint: string, subquery: RelatedSubqueryType): this {
+        // Set the constraint inside its own group, so that several subqueries can be set for the same relation
+        const constraints = new ConstraintMap;
+        constraints.set(key, constraint, subquery);
+        this.constraints.group(ConstraintGroups.And, [ constraints ]);
+        return this;
+    }
+
+    /**
+     * Set a group of queries
+     * @param {String} type
+     * @param {Array} queries
+     */
+    private group<C extends typeof Class>(type: string, queries: Array<Query<C>>) {
+        // Check if queries are provided
+        if (queries.length === 0)
+            throw new Error(Error.Code.MissingConfiguration, 'At least one query must be provided for a constraint group');
+
+        // Check if the queries are for the same class
+        for (const query of queries) {
+            enforce`${{ QueryToGroup: query }} as a ${{ Query }}`;
+            if (query.class.className !== this.class.className)
+                throw new Error(Error.Code.ForbiddenOperation, `Query for \`${query.class.className}\` cannot be grouped with \`${this.class.className}\``);
+        }
+
+        // Set the group
+        this.constraints.group(type, queries.map(query => query.constraints));
+        return this;
+    }
+
     get class() {
         return this.classType;
     }
 
+    /**
+     * Get the `hasMany` keys to load after the query
+     */
+    get collections(): string[] {
+        return [ ...this.includedCollections ];
+    }
+
+    /**
+     * Check if the query fetches the rows before a cursor, in which case
+     * the database returns them in reverse order
+     */
+    get isReversed(): boolean {
+        return typeof this.cursor !== 'undefined' && this.cursor.before;
+    }
+
     /**
      * Assert that the key is an exact match to the given value
      * @param {String} key
@@ -295,6 +413,70 @@ export default class Query<T extends typeof Class> {
         return this;
     }
 
+    /**
+     * Assert that the constraints of at least one of the given queries are met
+     * @param {Array} queries
+     */
+    public or<C extends typeof Class>(...queries: Array<Query<C>>): this {
+        this.group(ConstraintGroups.Or, queries);
+        return this;
+    }
+
+    /**
+     * Assert that the constraints of all of the given queries are met
+     * @param {Array} queries
+     */
+    public and<C extends typeof Class>(...queries: Array<Query<C>>): this {
+        this.group(ConstraintGroups.And, queries);
+        return this;
+    }
+
+    /**
+     * Assert that the object has related objects that match the given query
+     * @param {String} key of a relation
+     * @param {Query} query of the related class, matches any related object if not provided
+     */
+    public has<C extends typeof Class>(key: string, query?: Query<C>): this {
+        enforce`${{ key }} as a string`;
+
+        // Get the related class
+        const { relatedClass, subquery } = this.getRelatedSubquery(key);
+
+        // Check if the query is for the related class
+        const relatedQuery = typeof query !== 'undefined' ? query : new Query(relatedClass);
+        enforce`${{ QueryToRelate: relatedQuery }} as a ${{ Query }}`;
+        if (relatedQuery.class.className !== relatedClass.className)
+            throw new Error(Error.Code.ForbiddenOperation, `Query for \`${relatedQuery.class.className}\` cannot be used for \`${key}\``);
+
+        return this.setRelatedSubquery(key, Constraints.HasRelated, { ...subquery, query: relatedQuery });
+    }
+
+    /**
+     * Assert that the object has a related object that matches the constraints set by the callback
+     * @param {String} key of a relation
+     * @param {Function} callback that receives a query of the related class
+     */
+    public whereHas<C extends typeof Class>(key: string, callback?: (query: Query<C>) => any): this {
+        enforce`${{ key }} as a string`;
+        const { relatedClass, subquery } = this.getRelatedSubquery(key);
+        const relatedQuery = new Query(relatedClass as C);
+        if (typeof callback !== 'undefined') callback(relatedQuery);
+        return this.setRelatedSubquery(key, Constraints.HasRelated, { ...subquery, query: relatedQuery });
+    }
+
+    /**
+     * Assert that the object has no related object that matches the constraints set by the callback
+     * @param {String} key of a relation
+     * @param {Function} callback that receives a query of the related class
+     */
+    public whereDoesNotHave<C extends typeof Class>(key: string, callback?: (query: Query<C>) => any): this {
+        enforce`${{ key }} as a string`;
+        const { relatedClass, subquery } = this.getRelatedSubquery(key);
+        const relatedQuery = new Query(relatedClass as C);
+        if (typeof callback !== 'undefined') callback(relatedQuery);
+        return this.setRelatedSubquery(key, Constraints.DoesNotHaveRelated, { ...subquery, query: relatedQuery });
+    }
+
     /**
      * Select specific columns to query
      * @param {String} keys
@@ -335,10 +517,19 @@ export default class Query<T extends typeof Class> {
         if (!keys) throw new Error(Error.Code.MissingConfiguration, 'Include key must be a string or an array of strings');
         const keyList: string[] = keys[0] instanceof Array ? keys[0] : keys;
 
+        // Get definition
+        const definition = ClassDefinitionManager.get(this.class);
+
         // Loop through the keys
         for (const key of keyList) {
             enforce`${{key}} as a string`;
 
+            // Check if the key is a collection, which is loaded separately
+            if (typeof definition.hasMany[key] !== 'undefined' || typeof definition.belongsToMany[key] !== 'undefined') {
+                if (!this.includedCollections.includes(key)) this.includedCollections.push(key);
+                continue;
+            }
+
             // Check if the key exists for the class
             if (!this.class.has(key)) {
                 const suggestion = this.class.has(toSnakeCase(key)) ? `, did you mean \`${toSnakeCase(key)}\`?` : '';
@@ -366,12 +557,16 @@ export default class Query<T extends typeof Class> {
             // Get rawKey
             const rawKey = key[0] === '-' ? key.substr(1) : key;
 
-            // Check if the key exists for the class
-            if (!this.class.has(rawKey)) {
+            // Check if the key exists for the class, or is an aggregate
+            if (!this.class.has(rawKey) && !this.aggregates.has(rawKey)) {
                 const suggestion = this.class.has(toSnakeCase(key)) ? `, did you mean \`${toSnakeCase(key)}\`?` : '';
                 throw new Error(Error.Code.InvalidObjectKey, `Sort key \`${key}\` does not exist in \`${this.class.className}\`${suggestion}`);
             }
 
+            // Check if the key is hidden, since its values would be revealed by the order and by the cursors
+            if (!this.aggregates.has(rawKey) && this.class.isHidden(rawKey))
+                throw new Error(Error.Code.InvalidObjectKey, `Sort key \`${key}\` is hidden in \`${this.class.className}\``);
+
             this.sorting.push(key);
         }
         return this;
@@ -390,17 +585,160 @@ export default class Query<T extends typeof Class> {
         for (const key of keyList) {
             enforce`${{key}} as a string`;
 
-            // Check if the key exists for the class
-            if (!this.class.has(key)) {
+            // Check if the key exists for the class, or is an aggregate
+            if (!this.class.has(key) && !this.aggregates.has(key)) {
                 const suggestion = this.class.has(toSnakeCase(key)) ? `, did you mean \`${toSnakeCase(key)}\`?` : '';
                 throw new Error(Error.Code.InvalidObjectKey, `Sort key \`${key}\` does not exist in \`${this.class.className}\`${suggestion}`);
             }
 
+            // Check if the key is hidden, since its values would be revealed by the order and by the cursors
+            if (!this.aggregates.has(key) && this.class.isHidden(key))
+                throw new Error(Error.Code.InvalidObjectKey, `Sort key \`${key}\` is hidden in \`${this.class.className}\``);
+
             this.sorting.push(`-${key}`);
         }
         return this;
     }
 
+    /**
+     * Select an aggregate of the key
+     * @param {String} type
+     * @param {String} key
+     * @param {String} alias defaults to `{type}_{key}`
+     */
+    public aggregate(type: string, key: string, alias?: string): this {
+        enforce`${{ key }} as a string`;
+        enforce`${{ alias }} as an optional string`;
+
+        // Check if the aggregate exists
+        if (!Object.values(Aggregates).includes(type))
+            throw new Error(Error.Code.ForbiddenOperation, `Aggregate not found: ${type}`);
+
+        // Check if the key exists for the class
+        if (!this.class.has(key)) {
+            const suggestion = this.class.has(toSnakeCase(key)) ? `, did you mean \`${toSnakeCase(key)}\`?` : '';
+            throw new Error(Error.Code.InvalidObjectKey, `Aggregate key \`${key}\` does not exist in \`${this.class.className}\`${suggestion}`);
+        }
+
+        // Check if the key is hidden, since aggregated rows are returned as-is
+        if (this.class.isHidden(key))
+            throw new Error(Error.Code.InvalidObjectKey, `Aggregate key \`${key}\` is hidden in \`${this.class.className}\``);
+
+        // Check if the alias is a valid name
+        const aggregateAlias = typeof alias !== 'undefined' ? alias : `${type}_${key.replace(/\W/g, '_')}`;
+        if (!/^[A-Za-z_]\w*$/.test(aggregateAlias))
+            throw new Error(Error.Code.ForbiddenOperation, `Aggregate alias \`${aggregateAlias}\` must only contain letters, numbers and underscores`);
+
+        this.aggregates.set(aggregateAlias, { type, key });
+        return this;
+    }
+
+    /**
+     * Count the non-null values of the key
+     * @param {String} key
+     * @param {String} alias
+     */
+    public count(key: string = InternalId, alias?: string): this {
+        return this.aggregate(Aggregates.Count, key, alias);
+    }
+
+    /**
+     * Get the sum of the key
+     * @param {String} key
+     * @param {String} alias
+     */
+    public sum(key: string, alias?: string): this {
+        return this.aggregate(Aggregates.Sum, key, alias);
+    }
+
+    /**
+     * Get the average of the key
+     * @param {String} key
+     * @param {String} alias
+     */
+    public avg(key: string, alias?: string): this {
+        return this.aggregate(Aggregates.Average, key, alias);
+    }
+
+    /**
+     * Get the minimum value of the key
+     * @param {String} key
+     * @param {String} alias
+     */
+    public min(key: string, alias?: string): this {
+        return this.aggregate(Aggregates.Minimum, key, alias);
+    }
+
+    /**
+     * Get the maximum value of the key
+     * @param {String} key
+     * @param {String} alias
+     */
+    public max(key: string, alias?: string): this {
+        return this.aggregate(Aggregates.Maximum, key, alias);
+    }
+
+    /**
+     * Group the aggregates by the provided keys
+     * @param {String} keys
+     */
+    public groupBy(key: string): this;
+    public groupBy(keys: string[]): this;
+    public groupBy(...keys: string[]): this;
+    public groupBy(...keys: any[]): this {
+        // Check if first key is an array
+        if (keys.length === 0) throw new Error(Error.Code.MissingConfiguration, 'GroupBy key must be a string or an array of strings');
+        const keyList: string[] = keys[0] instanceof Array ? keys[0] : keys;
+
+        // Loop through the keys
+        for (const key of keyList) {
+            enforce`${{key}} as a string`;
+
+            // Check if the key exists for the class
+            if (!this.class.has(key)) {
+                const suggestion = this.class.has(toSnakeCase(key)) ? `, did you mean \`${toSnakeCase(key)}\`?` : '';
+                throw new Error(Error.Code.InvalidObjectKey, `GroupBy key \`${key}\` does not exist in \`${this.class.className}\`${suggestion}`);
+            }
+
+            // Check if the key is hidden, since aggregated rows are returned as-is
+            if (this.class.isHidden(key))
+                throw new Error(Error.Code.InvalidObjectKey, `GroupBy key \`${key}\` is hidden in \`${this.class.className}\``);
+
+            this.groupings.push(key);
+        }
+
+        return this;
+    }
+
+    /**
+     * Filter the aggregated rows
+     * @description Keys must either be aggregate aliases or groupBy keys.
+     * Similar to `where()`, groups are defined with `$or` and `$and` keys
+     * @param constraints
+     */
+    public having(constraints: { [key: string]: { [constraint: string]: any } }): this {
+        const having = new ConstraintMap(constraints);
+
+        // Check if the keys are aggregated
+        const validate = (map: ConstraintMap) => {
+            for (const key of map.keys) {
+                if (!this.aggregates.has(key) && !this.groupings.includes(key))
+                    throw new Error(Error.Code.InvalidObjectKey, `Having key \`${key}\` must be an aggregate alias or a groupBy key`);
+                if (!this.aggregates.has(key) && this.class.isHidden(key))
+                    throw new Error(Error.Code.InvalidObjectKey, `Having key \`${key}\` is hidden in \`${this.class.className}\``);
+            }
+            for (const group of map.groups) group.maps.forEach(validate);
+        };
+        validate(having);
+
+        // Set the constraints
+        for (const keyConstraints of having.toArray())
+            for (const { key, constraint, value } of keyConstraints.constraints) this.havingConstraints.set(key, constraint, value);
+        for (const group of having.groups) this.havingConstraints.group(group.type, group.maps);
+
+        return this;
+    }
+
     /**
      * Number of items to skip for the query
      * @param {String} keys
@@ -421,6 +759,73 @@ export default class Query<T extends typeof Class> {
         return this;
     }
 
+    /**
+     * Fetch the rows that come after the given cursor
+     * @param {String} cursor
+     */
+    public after(cursor: string): this {
+        enforce`${{ after: cursor }} as a string`;
+        this.cursor = { ...Cursor.decode(cursor), before: false };
+        return this;
+    }
+
+    /**
+     * Fetch the rows that come before the given cursor
+     * @param {String} cursor
+     */
+    public before(cursor: string): this {
+        enforce`${{ before: cursor }} as a string`;
+        this.cursor = { ...Cursor.decode(cursor), before: true };
+        return this;
+    }
+
+    /**
+     * Include the objects that were soft deleted
+     */
+    public withTrashed(): this {
+        this.setTrashed(Trashed.With);
+        return this;
+    }
+
+    /**
+     * Only fetch the objects that were soft deleted
+     */
+    public onlyTrashed(): this {
+        this.setTrashed(Trashed.Only);
+        return this;
+    }
+
+    /**
+     * Set whether soft deleted objects are fetched
+     * @param {String} trashed
+     */
+    private setTrashed(trashed: string) {
+        if (!this.class.softDeletes)
+            throw new Error(Error.Code.ForbiddenOperation, `\`${this.class.className}\` does not use soft deletes`);
+
+        this.trashed = trashed;
+    }
+
+    /**
+     * Copy the query, so that changes to the copy do not affect the original
+     */
+    public clone(): Query<T> {
+        const query = new Query(this.classType as T);
+        query.selection = [ ...this.selection ];
+        query.included = [ ...this.included ];
+        query.includedCollections = [ ...this.includedCollections ];
+        query.constraints = new ConstraintMap(this.constraints.toJSON());
+        query.sorting = [ ...this.sorting ];
+        query.aggregates = new Map(this.aggregates);
+        query.groupings = [ ...this.groupings ];
+        query.havingConstraints = new ConstraintMap(this.havingConstraints.toJSON());
+        query.skipped = this.skipped;
+        query.limitation = this.limitation;
+        query.cursor = this.cursor;
+        query.trashed = this.trashed;
+        return query;
+    }
+
     /**
      * Convert the query into a subquery
      * @param {String} select
@@ -433,15 +838,25 @@ export default class Query<T extends typeof Class> {
 
     /**
      * Generic where clause
+     * @description Groups are defined with `$or` and `$and` keys, containing a list of where clauses
      * @param constraints
      */
     public where(constraints: { [key: string]: { [constraint: string]: any } }) {
         // Iterate through constraints
         for (const [ key, constraintMap ] of Object.entries(constraints)) {
+            // Check if key is for a group
+            if (ConstraintMap.isGroup(key)) {
+                const group = ConstraintMap.validateGroup(key, constraintMap);
+                this.group(key, group.map(item => new Query(this.class).where(item)));
+                continue;
+            }
+
             for (const [ constraint, value ] of Object.entries(constraintMap)) {
                 this.set(key, constraint, value);
             }
         }
+
+        return this;
     }
 
     /**
@@ -452,13 +867,133 @@ export default class Query<T extends typeof Class> {
         const definition = ClassDefinitionManager.get(this.class);
 
         // Get selection
-        const defaultSelect = [ InternalId, ...definition.keys, ...definition.timestamps ];
+        const timestamps = definition.timestamps.filter(timestamp => this.class.softDeletes || timestamp !== DeletedAt);
+        const defaultSelect = [ InternalId, ...definition.keys, ...timestamps ];
         const selected = this.selection.length > 0 ? this.selection : defaultSelect;
         const selection = [ ...selected, ...this.included ];
 
         return selection;
     }
 
+    /**
+     * Get whether soft deleted objects are fetched, which is always the case for classes without soft deletes
+     */
+    private getTrashed(): string {
+        return this.class.softDeletes ? this.trashed : Trashed.With;
+    }
+
+    /**
+     * Get the sort keys, with the id as a tie-breaker so that each row has a unique position
+     */
+    private getUniqueSorting(): string[] {
+        const sorting = this.sorting.length > 0 ? this.sorting : Defaults.Query.Sort;
+        const hasId = sorting.some(sortKey => sortKey === InternalId || sortKey === `${SortSymbol}${InternalId}`);
+        return hasId ? [ ...sorting ] : [ ...sorting, InternalId ];
+    }
+
+    /**
+     * Get the constraints that only match the rows beyond the cursor
+     * @description e.g. for `a, -b, id` after the cursor: `a > x OR (a = x AND b < y) OR (a = x AND b = y AND id > z)`.
+     * Nulls are the smallest values, so they come first in ascending order
+     * @param {Array} sorting
+     */
+    private getCursorConstraints(sorting: string[]): ConstraintMap {
+        // Copy the constraints
+        const constraints = new ConstraintMap(this.constraints.toJSON());
+        if (typeof this.cursor === 'undefined') return constraints;
+
+        // Check if the cursor was made for the same sorting
+        const { keys, values, before } = this.cursor;
+        if (keys.length !== sorting.length || keys.some((key, index) => key !== sorting[index]))
+            throw new Error(Error.Code.ForbiddenOperation, 'Cursor does not match the sorting of the query');
+
+        // Prepare a constraint map for each sort key
+        const maps: ConstraintMap[] = [];
+        keys.forEach((sortKey, index) => {
+            const map = new ConstraintMap;
+            for (let previous = 0; previous < index; previous++) {
+                const previousKey = this.getRawSortKey(keys[previous]);
+                if (values[previous] === null) map.set(previousKey, Constraints.Exists, false);
+                else map.set(previousKey, Constraints.EqualTo, values[previous]);
+            }
+
+            // Nothing is smaller than null, while every other value is larger
+            const key = this.getRawSortKey(sortKey);
+            const isLess = (sortKey[0] === SortSymbol) !== before;
+            const value = values[index];
+            if (isLess && value === null) return;
+            else if (value === null) map.set(key, Constraints.Exists, true);
+            else if (!isLess) map.set(key, Constraints.GreaterThan, value);
+            else {
+                // Include the nulls, which are smaller than the value
+                const lessThan = new ConstraintMap;
+                const isNull = new ConstraintMap;
+                lessThan.set(key, Constraints.LessThan, value);
+                isNull.set(key, Constraints.Exists, false);
+                map.group(ConstraintGroups.Or, [ lessThan, isNull ]);
+            }
+
+            maps.push(map);
+        });
+
+        // Add the maps as a group, which is never empty since ids are never null
+        constraints.group(ConstraintGroups.Or, maps);
+        return constraints;
+    }
+
+    /**
+     * Get the key of a sort key, without its order
+     * @param {String} sortKey
+     */
+    private getRawSortKey(sortKey: string) {
+        return sortKey[0] === SortSymbol ? sortKey.slice(1) : sortKey;
+    }
+
+    /**
+     * Create a cursor that points to the given row
+     * @param {KeyMap} keys
+     */
+    private getCursorFrom(keys: KeyMap): string {
+        const sorting = this.getUniqueSorting();
+        const values = sorting.map(sortKey => {
+            // Get the value, including those from relations
+            const rawKey = this.getRawSortKey(sortKey);
+            let value: any;
+            if (Relation.isUsedBy(rawKey)) {
+                const [ relationName, ...relationKeys ] = rawKey.split(RelationDelimiter);
+                value = relationKeys.reduce((relation, relationKey) => {
+                    return relation !== null && typeof relation === 'object' ? relation[relationKey] : undefined;
+                }, keys.get(relationName));
+            } else value = keys.get(rawKey);
+
+            // Convert the value for comparisons
+            if (typeof value === 'undefined') return null;
+            else if (value instanceof Date) return toDatabaseDate(value.toISOString());
+            else return value;
+        });
+
+        return Cursor.encode(sorting, values);
+    }
+
+    /**
+     * Get the cursors for the next and previous pages of the rows
+     * @description Rows must be in their final order, and not yet converted into classes
+     * @param {Array} rows
+     */
+    public getCursors(rows: KeyMap[]): CollectionCursors {
+        // Check if there are rows
+        if (rows.length === 0) return { next: null, previous: null };
+
+        // Get the first and last rows
+        const first = this.getCursorFrom(rows[0]);
+        const last = this.getCursorFrom(rows[rows.length - 1]);
+        const isFull = rows.length === this.limitation;
+
+        // Determine the cursors based on the direction
+        if (this.isReversed) return { next: last, previous: isFull ? first : null };
+        else return { next: isFull ? last : null, previous: typeof this.cursor !== 'undefined' ? first : null };
+    }
+
     /**
      * Create class from keyMap
      * @param keys
@@ -479,9 +1014,11 @@ export default class Query<T extends typeof Class> {
         // Iterate through each key
         for (const [key, value] of keys.toArray()) {
             const relationDefinition = definition.relations[key];
-            if (typeof relationDefinition  !== 'undefined') {
+            if (typeof relationDefinition  !== 'undefined' && value !== null) {
+                // Create the related class, including its own relations if they were included
                 const relation = relationDefinition.toRelation();
-                keyMap.set(key, new relation.class(value));
+                if (typeof value === 'object') keyMap.set(key, new Query(relation.class).getClassFromKeys(new KeyMap(value)));
+                else keyMap.set(key, new relation.class(value));
             } else keyMap.set(key, value);
         }
 
@@ -489,6 +1026,7 @@ export default class Query<T extends typeof Class> {
         const classInstance = (new this.class) as C;
         classInstance.identifier = id;
         classInstance.keys = keyMap;
+        classInstance.syncOriginal();
 
         return classInstance;
     }
@@ -510,13 +1048,18 @@ export default class Query<T extends typeof Class> {
         const columns = getColumnsFrom(className, selection, relationsMap);
 
         // Get relations
-        const relations = getRelationsFrom(selection, relationsMap);
+        const relations = getRelationsFrom(className, selection, relationsMap);
 
-        // Get where constraints
-        const constraints = getConstraintsFrom(className, this.constraints);
+        // Get unique sorting
+        const uniqueSorting = this.getUniqueSorting();
+
+        // Get where constraints, including those of the cursor
+        const constraints = getConstraintsFrom(className, this.getCursorConstraints(uniqueSorting), relationsMap, this.getTrashed());
 
-        // Get sorting
-        const sorting = getSortingFrom(className, this.sorting);
+        // Get sorting, in reverse if fetching the rows before the cursor
+        const sorting = getSortingFrom(className, !this.isReversed ? uniqueSorting : uniqueSorting.map(sortKey => {
+            return sortKey[0] === SortSymbol ? this.getRawSortKey(sortKey) : `${SortSymbol}${sortKey}`;
+        }), relationsMap);
 
         // Get pagination
         const { skipped, limitation } = this;
@@ -533,4 +1076,56 @@ export default class Query<T extends typeof Class> {
         };
     }
 
-}
\ No newline at end of file
+    /**
+     * Convert query into aggregate options for database
+     */
+    public toAggregateOptions(): AggregateOptionsType {
+        // Check if there is anything to aggregate
+        if (this.aggregates.size === 0 && this.groupings.length === 0)
+            throw new Error(Error.Code.MissingConfiguration, 'Aggregate queries must have at least one aggregate or groupBy key');
+
+        // Get class alias
+        const className = this.class.className;
+
+        // Get class details
+        const relationsMap = ClassDefinitionManager.get(this.class).relations;
+
+        // Get aggregates
+        const aggregates = getAggregatesFrom(className, this.aggregates, relationsMap);
+
+        // Get groupings
+        const groupings = getColumnsFrom(className, this.groupings, relationsMap);
+
+        // Get relations
+        const aggregateKeys = [ ...this.aggregates.values() ].map(({ key }) => key);
+        const relations = getRelationsFrom(className, [ ...aggregateKeys, ...this.groupings ], relationsMap);
+
+        // Get where constraints
+        const constraints = getConstraintsFrom(className, this.constraints, relationsMap, this.getTrashed());
+
+        // Get having constraints, which are already keyed by alias
+        const having = new ConstraintMap(this.havingConstraints.toJSON());
+
+        // Get sorting, keeping aggregate aliases as-is
+        const sorting = this.sorting.map(sortKey => {
+            const rawKey = sortKey[0] === SortSymbol ? sortKey.slice(1) : sortKey;
+            return this.aggregates.has(rawKey) ? sortKey : getSortingFrom(className, [ sortKey ], relationsMap)[0];
+        });
+
+        // Get pagination
+        const { skipped, limitation } = this;
+
+        // Return aggregate options
+        return {
+            source: [this.class.source, className],
+            aggregates,
+            groupings,
+            relations,
+            constraints,
+            having,
+            sorting,
+            skipped,
+            limitation,
+        };
+    }
+}
@@ -1,7 +1,7 @@
 import Class, { ClassDefinitionManager } from './class';
 import { InternalKeys, RelationDelimiter, RelationTypeName, InternalId } from '../../utils/constants';
 import Error from '../../utils/error';
-import { ClassCaller } from '../../types/relations';
+import { ClassCaller, BelongsToManyOptions } from '../../types/relations';
 import { Query } from '../..';
 
 export default class Relation {
@@ -39,16 +39,37 @@ export default class Relation {
     }
 
     public static isValid(key: string) {
-        return this.isUsedBy(key) && key.split(RelationDelimiter).length === 2;
+        return this.isUsedBy(key) && key.split(RelationDelimiter).every(part => part.length > 0);
     }
 
+    /**
+     * Split the key into the name of its first relation, and the rest of the key
+     * @param {String} keyName
+     */
     public static parseKey(keyName: string): [string, string] {
         // Get key parts
-        const [ className, key ] = keyName.split(RelationDelimiter, 2);
+        const [ className, ...keys ] = keyName.split(RelationDelimiter);
+        const key = keys.join(RelationDelimiter);
 
         return [ className, key ];
     }
 
+    /**
+     * Assign a value to a copy of the keys of a relation, including those of nested relations, i.e. `author.email`
+     * @param {Object} keys
+     * @param {String} key
+     * @param {*} value
+     */
+    public static assignKey(keys: any, key: string, value: any): object {
+        // Keep the foreign key that was selected before the relation keys, i.e. `author` of `author.email`, as its id
+        let relationKeys = keys !== null && typeof keys === 'object' ? keys : {};
+        if (keys !== null && typeof keys !== 'object' && typeof keys !== 'undefined') relationKeys = { [InternalId]: keys };
+        if (!this.isUsedBy(key)) return { ...relationKeys, [key]: value };
+
+        const [ relationName, relationKey ] = this.parseKey(key);
+        return { ...relationKeys, [relationName]: this.assignKey(relationKeys[relationName], relationKey, value) };
+    }
+
     public static formatKey(className: string, key: string) {
         return `${className}${RelationDelimiter}${key}`;
     }
@@ -97,6 +118,7 @@ export default class Relation {
 export class RelationDefinition<C extends typeof Class> {
 
     private classCaller: ClassCaller<C>;
+    private ownerCaller: ClassCaller<typeof Class>;
     private sourceClassName: string;
     private sourceKey: string;
     private parentClassName: string;
@@ -110,17 +132,18 @@ export class RelationDefinition<C extends typeof Class> {
         sourceKey: string,
         parentClassName: string,
         parentKey: string,
+        ownerDefinition: ClassCaller<typeof Class>,
     ) {
         this.classCaller = classDefinition;
         this.sourceClassName = sourceClassName;
         this.sourceKey = sourceKey;
         this.parentClassName = parentClassName;
         this.parentKey = parentKey;
+        this.ownerCaller = ownerDefinition;
     }
 
     public toRelation() {
         const classType = this.classCaller();
-        const definition = ClassDefinitionManager.get(classType);
         const { sourceClassName, sourceKey, parentClassName, parentKey } = this;
         let actualSourceKey = sourceKey;
         let secondary = false;
@@ -130,7 +153,11 @@ export class RelationDefinition<C extends typeof Class> {
 
         // Check if relation is secondary
         if (secondary) {
-            if (typeof definition.relations[sourceKey] !== 'undefined') {
+            // Get the definition of the class that the source relation points to, i.e. `location` of `location.country`
+            const sourceDefinition = ClassDefinitionManager.get(this.ownerCaller()).relations[sourceClassName];
+            const definition = typeof sourceDefinition !== 'undefined' ? ClassDefinitionManager.get(sourceDefinition.toRelation().class) : undefined;
+
+            if (typeof definition !== 'undefined' && typeof definition.relations[sourceKey] !== 'undefined') {
                 // Get parent definition
                 const parentDefinition = definition.relations[sourceKey];
                 actualSourceKey = parentDefinition.toRelation().sourceKey;
@@ -150,4 +177,74 @@ export class RelationDefinition<C extends typeof Class> {
         // Return relation
         return relation;
     }
+}
+
+export class HasManyDefinition<C extends typeof Class> {
+
+    private classCaller: ClassCaller<C>;
+    private foreignKeyName: string;
+
+    /**
+     * Constructor
+     * @param {Function} classDefinition
+     * @param {String} foreignKey the key inside the child class that matches the parent's `id`
+     */
+    constructor(classDefinition: ClassCaller<C>, foreignKey: string) {
+        this.classCaller = classDefinition;
+        this.foreignKeyName = foreignKey;
+    }
+
+    get class(): C {
+        return this.classCaller();
+    }
+
+    get foreignKey(): string {
+        return this.foreignKeyName;
+    }
+}
+
+export class BelongsToManyDefinition<C extends typeof Class> {
+
+    private classCaller: ClassCaller<C>;
+    private throughSource: string;
+    private foreignKeyName?: string;
+    private relatedKeyName?: string;
+
+    /**
+     * Constructor
+     * @param {Function} classDefinition
+     * @param {Object} options
+     */
+    constructor(classDefinition: ClassCaller<C>, { through, foreignKey, relatedKey }: BelongsToManyOptions) {
+        this.classCaller = classDefinition;
+        this.throughSource = through;
+        this.foreignKeyName = foreignKey;
+        this.relatedKeyName = relatedKey;
+    }
+
+    get class(): C {
+        return this.classCaller();
+    }
+
+    /**
+     * The pivot table that links both classes
+     */
+    get through(): string {
+        return this.throughSource;
+    }
+
+    /**
+     * The key inside the pivot table that matches the related class' `id`, i.e. `tag_id`
+     */
+    get relatedKey(): string {
+        return this.relatedKeyName || Relation.formatAsId(this.class.className);
+    }
+
+    /**
+     * The key inside the pivot table that matches the owner's `id`, i.e. `product_id`
+     * @param {String} className of the owner
+     */
+    public foreignKeyOf(className: string): string {
+        return this.foreignKeyName || Relation.formatAsId(className);
+    }
 }
\ No newline at end of file
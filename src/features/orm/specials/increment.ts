@@ -5,7 +5,9 @@ export default class Increment {
     private minimum: number;
     private maximum?: number;
     private keyValue: [ string, any ];
+    // @deprecated - backwards compatibility, SQL adapters now bind values through their dialects
     public escapeKey: (value: any) => string = value => value;
+    // @deprecated - backwards compatibility, SQL adapters now bind values through their dialects
     public escape: (value: any) => string = value => value;
 
     constructor(key: string, value: number, min: number = 0, max?: number) {
@@ -42,6 +44,7 @@ export default class Increment {
         return this.maximum;
     }
 
+    // @deprecated - backwards compatibility, the MySQL expression of the increment
     public toSqlString() {
         let escaped = `GREATEST(IFNULL(${this.escapeKey(this.key)}, 0) + (${this.escape(this.value)}), ${this.min})`;
         if (typeof this.max !== 'undefined') escaped = `LEAST(${escaped}, ${this.max})`;
@@ -6,7 +6,9 @@ export class JsonAction {
     public type: JsonActionType;
     public keyValue: [ string, any ];
     public pathName: string;
+    // @deprecated - backwards compatibility, SQL adapters now bind values through their dialects
     public escapeKey: (value: any) => string = value => value;
+    // @deprecated - backwards compatibility, SQL adapters now bind values through their dialects
     public escape: (value: any) => string = value => value;
 
     constructor(type: JsonActionType, key: string, path: string, value: any) {
@@ -33,6 +35,7 @@ export class JsonAction {
         return this.pathName;
     }
 
+    // @deprecated - backwards compatibility, the MySQL expression of the json action
     public toSqlString() {
         if (this.type === SetJsonTypeName) {
             const key = `IFNULL(${this.escapeKey(this.key)}, JSON_OBJECT())`;
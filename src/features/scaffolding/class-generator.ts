@@ -0,0 +1,238 @@
+import DatabaseClient from '../../adapters/database/mysql/client';
+import Logger from '../../adapters/logger';
+import Migration from '../migrations/migration';
+import Relation, { RelationDefinition } from '../orm/relation';
+import { DatabaseRead, InternalId, InternalTimestamps, DeletedAt } from '../../utils/constants';
+import { toCamelCase, toPascalCase, toSnakeCase } from '../../utils/format';
+
+const { version } = require('../../package.json');
+
+/**
+ * A column of a table, as described by `information_schema`
+ */
+interface ColumnDescription {
+    name: string;
+    dataType: string;
+    columnType: string;
+    maxLength: number | null;
+}
+
+/**
+ * A table, along with the tables that its foreign keys point to, keyed by column
+ */
+interface TableDescription {
+    name: string;
+    columns: ColumnDescription[];
+    references: { [column: string]: [string, string] };
+}
+
+/**
+ * Types of the columns that can be mapped to keys
+ */
+const ColumnTypes = Object.freeze({
+    string: [ 'char', 'varchar', 'tinytext', 'text', 'mediumtext', 'longtext', 'enum', 'set', 'time' ],
+    number: [ 'tinyint', 'smallint', 'mediumint', 'int', 'integer', 'bigint', 'decimal', 'numeric', 'float', 'double', 'real', 'year' ],
+    Date: [ 'date', 'datetime', 'timestamp' ],
+    object: [ 'json' ],
+});
+
+/**
+ * Quote a value as a string literal
+ * @param {String} value
+ */
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+
+export default class ClassGenerator {
+
+    private client: DatabaseClient;
+
+    /**
+     * Constructor
+     * @param {DatabaseClient} client of a MySQL database
+     */
+    constructor(client: DatabaseClient) {
+        this.client = client;
+    }
+
+    /**
+     * Connect to a MySQL database
+     * @param {String} databaseURI
+     */
+    public static async connect(databaseURI: string): Promise<ClassGenerator> {
+        const logger = Logger.use('console', 'Warp Server', process.env.WARP_LOG_LEVEL || 'error');
+        const client = new DatabaseClient({ uris: [ { uri: databaseURI, action: DatabaseRead } ], persistent: false, logger });
+        await client.initialize();
+        return new ClassGenerator(client);
+    }
+
+    /**
+     * Describe the tables of the database, along with their foreign keys
+     */
+    private async describe(): Promise<TableDescription[]> {
+        // Get columns
+        const columns = await this.client.query('SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name, DATA_TYPE AS data_type, '
+            + 'COLUMN_TYPE AS column_type, CHARACTER_MAXIMUM_LENGTH AS max_length FROM information_schema.COLUMNS '
+            + `WHERE TABLE_SCHEMA = DATABASE() ORDER BY TABLE_NAME, ORDINAL_POSITION; -- Warp Server ${version}`, DatabaseRead);
+
+        // Get foreign keys
+        const foreignKeys = await this.client.query('SELECT TABLE_NAME AS table_name, COLUMN_NAME AS column_name, '
+            + 'REFERENCED_TABLE_NAME AS referenced_table, REFERENCED_COLUMN_NAME AS referenced_column FROM information_schema.KEY_COLUMN_USAGE '
+            + `WHERE TABLE_SCHEMA = DATABASE() AND REFERENCED_TABLE_NAME IS NOT NULL; -- Warp Server ${version}`, DatabaseRead);
+
+        // Group columns by table, in order
+        const tables: Map<string, TableDescription> = new Map;
+        for (const row of columns.rows) {
+            const name = row['table_name'];
+            const table: TableDescription = tables.get(name) || { name, columns: [], references: {} };
+            table.columns.push({
+                name: row['column_name'],
+                dataType: String(row['data_type']).toLowerCase(),
+                columnType: String(row['column_type']),
+                maxLength: row['max_length'] !== null ? Number(row['max_length']) : null,
+            });
+            tables.set(name, table);
+        }
+
+        // Add the foreign keys
+        for (const row of foreignKeys.rows) {
+            const table = tables.get(row['table_name']);
+            if (typeof table !== 'undefined') table.references[row['column_name']] = [ row['referenced_table'], row['referenced_column'] ];
+        }
+
+        return [ ...tables.values() ];
+    }
+
+    /**
+     * Sort tables so that the tables that a foreign key points to come first
+     * @description Decorators read the types of relations when a class is defined, so related classes must be defined earlier
+     * @param {Array} tables
+     */
+    private sort(tables: TableDescription[]): TableDescription[] {
+        const sorted: TableDescription[] = [];
+        const visiting: string[] = [];
+        const visit = (table: TableDescription) => {
+            if (sorted.includes(table) || visiting.includes(table.name)) return;
+            visiting.push(table.name);
+            for (const [ referencedTable ] of Object.values(table.references)) {
+                const referenced = tables.find(item => item.name === referencedTable);
+                if (typeof referenced !== 'undefined') visit(referenced);
+            }
+            sorted.push(table);
+        };
+
+        for (const table of tables) visit(table);
+        return sorted;
+    }
+
+    /**
+     * Generate the declaration of a key
+     * @param {Object} table
+     * @param {Object} column
+     * @param {Array} defined tables whose classes are already defined
+     */
+    private getKey(table: TableDescription, column: ColumnDescription, defined: string[]): string {
+        // Get the property, and check if it maps back to the column
+        const property = toCamelCase(column.name);
+        if (toSnakeCase(property) !== column.name)
+            return `// Skipped \`${column.name}\`: its name cannot be mapped to a key`;
+
+        // Check if the column is a relation to a class that is already defined
+        const reference = table.references[column.name];
+        if (typeof reference !== 'undefined' && defined.includes(reference[0])) {
+            const [ referencedTable, referencedColumn ] = reference;
+            const relationName = column.name.endsWith(`_${InternalId}`) ? column.name.slice(0, -(InternalId.length + 1)) : column.name;
+            const from = Relation.formatKey(RelationDefinition.OwnerSymbol, column.name);
+            const to = Relation.formatKey(relationName, referencedColumn);
+            const options = [
+                from !== Relation.formatKey(RelationDefinition.OwnerSymbol, Relation.formatAsId(relationName)) ? `from: ${quote(from)}` : '',
+                referencedColumn !== InternalId ? `to: ${quote(to)}` : '',
+            ].filter(option => option.length > 0);
+            const decorator = options.length > 0 ? `@key({ ${options.join(', ')} })` : '@key';
+            return `${decorator} ${toCamelCase(relationName)}: ${this.getClassName(referencedTable)};`;
+        }
+
+        // Check if the column is a boolean
+        if (column.columnType.toLowerCase().startsWith('tinyint(1)')) return `@key ${property}: boolean;`;
+
+        // Get the type of the column
+        const type = Object.keys(ColumnTypes).find(name => ColumnTypes[name].includes(column.dataType));
+        if (typeof type === 'undefined')
+            return `// Skipped \`${column.name}\`: \`${column.dataType}\` columns are not supported`;
+
+        // Add modifiers
+        const modifiers: string[] = [];
+        if (column.dataType === 'enum') {
+            const values = (column.columnType.match(/'((?:[^']|'')*)'/g) || []).map(value => value.slice(1, -1).replace(/''/g, '\''));
+            modifiers.push(`@enumerated([ ${values.map(value => quote(value)).join(', ')} ])`);
+        } else if ((column.dataType === 'varchar' || column.dataType === 'char') && column.maxLength !== null)
+            modifiers.push(`@length(0, ${column.maxLength})`);
+
+        const keyDecorator = type === 'object' ? `@key({ type: 'json' })` : '@key';
+        return `${[ ...modifiers, keyDecorator ].join(' ')} ${property}: ${type};`;
+    }
+
+    /**
+     * Get the name of the class of a table
+     * @param {String} table
+     */
+    private getClassName(table: string): string {
+        return toPascalCase(table).replace(/\W/g, '');
+    }
+
+    /**
+     * Generate the declaration of a class
+     * @param {Object} table
+     * @param {Array} defined tables whose classes are already defined
+     */
+    private getClass(table: TableDescription, defined: string[]): string {
+        // Get class options
+        const className = this.getClassName(table.name);
+        const options = [
+            toSnakeCase(className) !== table.name ? `className: ${quote(table.name)}` : '',
+            !table.columns.some(column => column.name === DeletedAt) ? 'softDeletes: false' : '',
+        ].filter(option => option.length > 0);
+        const decorator = options.length > 0 ? `@define({ ${options.join(', ')} })` : '@define';
+
+        // Get keys, except for the id and timestamps
+        const internalKeys: string[] = [ InternalId, ...Object.values(InternalTimestamps) ];
+        const keys = table.columns
+            .filter(column => !internalKeys.includes(column.name))
+            .map(column => `    ${this.getKey(table, column, defined)}`);
+
+        const body = keys.length > 0 ? [ '', ...keys, '' ] : [ '' ];
+        return [ `${decorator} export class ${className} extends Class {`, ...body, '}' ].join('\n');
+    }
+
+    /**
+     * Generate the classes of the tables, as the source of a single module
+     * @description Tables without an `id`, such as pivot tables, are skipped
+     * @param {Array} tableNames to generate, or every table if not provided
+     */
+    public async generate(tableNames?: string[]): Promise<string> {
+        // Get tables
+        const described = (await this.describe()).filter(table => table.name !== Migration.source
+            && (typeof tableNames === 'undefined' || tableNames.includes(table.name)));
+        const tables = this.sort(described.filter(table => table.columns.some(column => column.name === InternalId)));
+        const skipped = described.filter(table => !tables.includes(table));
+
+        // Generate the classes, in order
+        const defined: string[] = [];
+        const classes: string[] = [];
+        for (const table of tables) {
+            classes.push(this.getClass(table, defined));
+            defined.push(table.name);
+        }
+
+        // Import the decorators that are used
+        const source = classes.join('\n\n');
+        const imports = [ 'Class', 'define', 'key', 'length', 'enumerated' ].filter(name => name === 'Class' || source.includes(`@${name}`));
+
+        return [
+            `import { ${imports.join(', ')} } from 'warp-server';`,
+            ...(skipped.length > 0 ? [ '', `// Skipped tables without an \`${InternalId}\`: ${skipped.map(table => table.name).join(', ')}` ] : []),
+            '',
+            source,
+            '',
+        ].join('\n');
+    }
+}
@@ -8,6 +8,7 @@ import User from './features/auth/user';
 import Function from './features/functions/function';
 import ClassManager from './features/orm/class-manager';
 import FunctionManager from './features/functions/function-manager';
+import MigrationManager from './features/migrations/migration-manager';
 import Database from './adapters/database';
 import Logger from './adapters/logger';
 import { ServerConfigType } from './types/server';
@@ -22,7 +23,7 @@ import FunctionController from './controllers/function';
 import Collection from './utils/collection';
 import Response from './utils/response';
 import Validation from './utils/validation';
-import { URIConfig } from './types/database';
+import { URIConfig, IDatabaseAdapter } from './types/database';
 
 const { version } = require('./package.json');
 
@@ -39,8 +40,10 @@ export default class Warp {
 
     private loggerInstance: ILogger;
     private security: SecurityConfigType;
+    private databaseInstance: IDatabaseAdapter;
     private classManager: ClassManager;
     private functionManager: FunctionManager;
+    private migrationManager: MigrationManager;
     private routerInstance: Router;
     private responseInstance: Response;
     private classController: ClassController = new ClassController(this);
@@ -52,11 +55,13 @@ export default class Warp {
      */
     constructor({
         databaseURI,
+        database,
         apiKey = '',
         masterKey = '',
         persistent = false,
         customResponse,
         restful,
+        migrationsDirectory = 'migrations',
     }: ServerConfigType) {
         // Set logger
         this.setLogger('console');
@@ -65,11 +70,14 @@ export default class Warp {
         this.setSecurity({ apiKey, masterKey });
 
         // Set class manager
-        this.setClassManager(databaseURI, persistent);
+        this.setClassManager(databaseURI, persistent, database);
 
         // Set action mapper
         this.setFunctionManager();
 
+        // Set migrations
+        this.setMigrationManager(migrationsDirectory);
+
         // Set response format
         this.setResponse(customResponse);
 
@@ -89,6 +97,15 @@ export default class Warp {
         return Query;
     }
 
+    /**
+     * Register a database adapter for a protocol
+     * @param {String} protocol
+     * @param {IDatabaseAdapter} adapter
+     */
+    public static registerDatabaseAdapter(protocol: string, adapter: typeof IDatabaseAdapter) {
+        Database.register(protocol, adapter);
+    }
+
     /**
      * API Key
      */
@@ -117,6 +134,13 @@ export default class Warp {
         return this.functionManager;
     }
 
+    /**
+     * Migration operations
+     */
+    get migrations(): MigrationManager {
+        return this.migrationManager;
+    }
+
     /**
      * Logger
      */
@@ -187,7 +211,14 @@ export default class Warp {
      * Set data mapper configuration
      * @param {Object} config
      */
-    private setClassManager(databaseURI: string | URIConfig[], persistent: boolean) {
+    private setClassManager(databaseURI: string | URIConfig[] | undefined, persistent: boolean, database?: IDatabaseAdapter) {
+        // Use the database adapter as-is, if provided
+        if (typeof database !== 'undefined') {
+            this.databaseInstance = database;
+            this.classManager = new ClassManager(database);
+            return;
+        }
+
         // Get uris
         let uris: URIConfig[] = [];
 
@@ -206,11 +237,9 @@ export default class Warp {
         // Get database protocol
         const protocol = uris[0].uri.split(':')[0];
 
-        // Prepare database
-        const database = Database.use(protocol, { uris, persistent, logger: this.logger });
-
         // Set data mapper
-        this.classManager = new ClassManager(database);
+        this.databaseInstance = Database.use(protocol, { uris, persistent, logger: this.logger });
+        this.classManager = new ClassManager(this.databaseInstance);
     }
 
     /**
@@ -221,6 +250,14 @@ export default class Warp {
         this.functionManager = new FunctionManager();
     }
 
+    /**
+     * Set migrations, which share the database of the data mapper
+     * @param directory
+     */
+    private setMigrationManager(directory: string) {
+        this.migrationManager = new MigrationManager(this.databaseInstance, this.classManager, directory);
+    }
+
     /**
      * Set response format
      * @param customResponse
@@ -293,16 +330,46 @@ export default class Warp {
 /**
  * Export types
  */
-export { ClassId, ClassOptions } from './types/class';
+export { ClassId, ClassOptions, SaveOptions, UpsertOptions } from './types/class';
 export { Request } from './types/request';
+export {
+    IDatabaseAdapter,
+    IDatabaseTransaction,
+    DatabaseConfig,
+    URIConfig,
+    AggregateOptionsType,
+    AggregateObject,
+    AggregateRow,
+    RelatedSubqueryType,
+} from './types/database';
+export {
+    ColumnSchema,
+    IndexSchema,
+    ForeignKeySchema,
+    TableSchema,
+    MigrationOperation,
+    MigrationFile,
+    MigrationStatus,
+    GenerateOptions,
+} from './types/migrations';
+export { Aggregates, MigrationOperations } from './utils/constants';
+export { default as KeyMap } from './utils/key-map';
+export { CollectionCursors } from './utils/collection';
+export { default as ConstraintMap, Constraints, ConstraintObject, ConstraintGroups, ConstraintGroup } from './utils/constraint-map';
+export { default as Relation } from './features/orm/relation';
+export { default as DatabaseAdapter } from './adapters/database/adapter';
+export { default as ClassGenerator } from './features/scaffolding/class-generator';
 
 /**
  * Export features
  */
 export { define } from './features/orm/class';
 export { key } from './features/orm/keys/key';
+export { hasMany } from './features/orm/keys/relations/has-many';
+export { belongsToMany } from './features/orm/keys/relations/belongs-to-many';
 export { hidden } from './features/orm/keys/modifiers/hidden';
 export { guarded } from './features/orm/keys/modifiers/guarded';
+export { version } from './features/orm/keys/modifiers/version';
 export { length } from './features/orm/keys/modifiers/length';
 export { min } from './features/orm/keys/modifiers/min';
 export { max } from './features/orm/keys/modifiers/max';
@@ -2,7 +2,7 @@ import express from 'express';
 import enforce from 'enforce-js';
 import Warp from '../index';
 import ClassController from '../controllers/class';
-import { FindOptionsType, GetOptionsType } from '../types/classes';
+import { FindOptionsType, CountOptionsType, AggregateOptionsType, GetOptionsType } from '../types/classes';
 import { InternalKeys } from '../utils/constants';
 import Error from '../utils/error';
 
@@ -26,8 +26,9 @@ const classes = (api: Warp): express.Router => {
     router.get('/classes/:className', async (req, res, next) => {
         // Get parameters
         const { className } = req.params;
-        const { select, include, where, sort, skip, limit } = req.query;
+        const { select, include, where, sort, skip, limit, after, before } = req.query;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
 
         try {
             // Enforce
@@ -37,6 +38,8 @@ const classes = (api: Warp): express.Router => {
             enforce`${{ sort }} as an optional string, equivalent to an array`;
             enforce`${{ skip }} as an optional number`;
             enforce`${{ limit }} as an optional number`;
+            enforce`${{ after }} as an optional string`;
+            enforce`${{ before }} as an optional string`;
 
             // Parse parameters
             const params: FindOptionsType = {
@@ -47,13 +50,20 @@ const classes = (api: Warp): express.Router => {
                 sort: typeof sort !== 'undefined' ? JSON.parse(sort) : undefined,
                 skip,
                 limit,
+                after,
+                before,
                 user,
+                master,
             };
 
             const classCollection = await controller.find(params);
 
-            // Return response
+            // Return response, along with the cursors
             req[InternalKeys.Middleware.Result] = classCollection;
+            req[InternalKeys.Middleware.Meta] = {
+                next_cursor: classCollection.nextCursor,
+                previous_cursor: classCollection.previousCursor,
+            };
             api.response.success(req, res, next);
         } catch (err) {
             // Check if class was not found
@@ -67,6 +77,96 @@ const classes = (api: Warp): express.Router => {
         }
     });
 
+    /**
+     * Counting objects
+     */
+    router.get('/classes/:className/count', async (req, res, next) => {
+        // Get parameters
+        const { className } = req.params;
+        const { where } = req.query;
+        const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
+
+        try {
+            // Enforce
+            enforce`${{ where }} as an optional string, equivalent to an object`;
+
+            // Parse parameters
+            const params: CountOptionsType = {
+                className,
+                where: typeof where !== 'undefined' ? JSON.parse(where) : undefined,
+                user,
+                master,
+            };
+
+            const count = await controller.count(params);
+
+            // Return response
+            req[InternalKeys.Middleware.Result] = count;
+            api.response.success(req, res, next);
+        } catch (err) {
+            // Check if class was not found
+            if (err.code === Error.Code.ClassNotFound) {
+                api.logger.warn(err, `Could not count the objects for \`${className}\`: ${err.message}`);
+                next();
+            } else {
+                api.logger.error(err, `Could not count the objects for \`${className}\`: ${err.message}`);
+                api.response.error(err, req, res, next);
+            }
+        }
+    });
+
+    /**
+     * Aggregating objects
+     */
+    router.get('/classes/:className/aggregate', async (req, res, next) => {
+        // Get parameters
+        const { className } = req.params;
+        const { aggregate, group_by: groupBy, having, where, sort, skip, limit } = req.query;
+        const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
+
+        try {
+            // Enforce
+            enforce`${{ aggregate }} as an optional string, equivalent to an object`;
+            enforce`${{ group_by: groupBy }} as an optional string, equivalent to an array`;
+            enforce`${{ having }} as an optional string, equivalent to an object`;
+            enforce`${{ where }} as an optional string, equivalent to an object`;
+            enforce`${{ sort }} as an optional string, equivalent to an array`;
+            enforce`${{ skip }} as an optional number`;
+            enforce`${{ limit }} as an optional number`;
+
+            // Parse parameters
+            const params: AggregateOptionsType = {
+                className,
+                aggregate: typeof aggregate !== 'undefined' ? JSON.parse(aggregate) : undefined,
+                groupBy: typeof groupBy !== 'undefined' ? JSON.parse(groupBy) : undefined,
+                having: typeof having !== 'undefined' ? JSON.parse(having) : undefined,
+                where: typeof where !== 'undefined' ? JSON.parse(where) : undefined,
+                sort: typeof sort !== 'undefined' ? JSON.parse(sort) : undefined,
+                skip,
+                limit,
+                user,
+                master,
+            };
+
+            const rows = await controller.aggregate(params);
+
+            // Return response
+            req[InternalKeys.Middleware.Result] = rows;
+            api.response.success(req, res, next);
+        } catch (err) {
+            // Check if class was not found
+            if (err.code === Error.Code.ClassNotFound) {
+                api.logger.warn(err, `Could not aggregate the objects for \`${className}\`: ${err.message}`);
+                next();
+            } else {
+                api.logger.error(err, `Could not aggregate the objects for \`${className}\`: ${err.message}`);
+                api.response.error(err, req, res, next);
+            }
+        }
+    });
+
     /**
      * Finding a single object
      */
@@ -75,6 +175,7 @@ const classes = (api: Warp): express.Router => {
         const { className, id } = req.params;
         const { include, select } = req.query;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
 
         try {
             // Enforce
@@ -88,6 +189,7 @@ const classes = (api: Warp): express.Router => {
                 include: typeof include !== 'undefined' ? JSON.parse(include) : undefined,
                 select: typeof select !== 'undefined' ? JSON.parse(select) : undefined,
                 user,
+                master,
             };
 
             const classInstance = await controller.get(params);
@@ -115,10 +217,11 @@ const classes = (api: Warp): express.Router => {
         const { className } = req.params;
         const keys = req.body;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
 
         try {
             // Create class
-            const classInstance = await controller.create({ className, keys, user });
+            const classInstance = await controller.create({ className, keys, user, master });
 
             // Return response
             req[InternalKeys.Middleware.Result] = classInstance;
@@ -143,10 +246,11 @@ const classes = (api: Warp): express.Router => {
         const { className, id } = req.params;
         const keys = req.body;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
 
         try {
             // Update class
-            const classInstance = await controller.update({ className, keys, id, user });
+            const classInstance = await controller.update({ className, keys, id, user, master });
 
             // Return response
             req[InternalKeys.Middleware.Result] = classInstance;
@@ -170,10 +274,11 @@ const classes = (api: Warp): express.Router => {
         // Get parameters
         const { className, id } = req.params;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
 
         try {
             // Destroy class
-            const classInstance = await controller.destroy({ className, id, user });
+            const classInstance = await controller.destroy({ className, id, user, master });
 
             // Return response
             req[InternalKeys.Middleware.Result] = classInstance;
@@ -190,6 +295,61 @@ const classes = (api: Warp): express.Router => {
         }
     });
 
+    /**
+     * Restoring soft deleted objects
+     */
+    router.post('/classes/:className/:id/restore', async (req, res, next) => {
+        // Get parameters
+        const { className, id } = req.params;
+        const master = req[InternalKeys.Middleware.Master];
+
+        try {
+            // Restore class
+            const classInstance = await controller.restore({ className, id, master });
+
+            // Return response
+            req[InternalKeys.Middleware.Result] = classInstance;
+            api.response.success(req, res, next);
+        } catch (err) {
+            // Check if class was not found
+            if (err.code === Error.Code.ClassNotFound) {
+                api.logger.warn(err, `Could not restore the object for \`${className}\`: ${err.message}`);
+                next();
+            } else {
+                api.logger.error(err, `Could not restore the object for \`${className}\`: ${err.message}`);
+                api.response.error(err, req, res, next);
+            }
+        }
+    });
+
+    /**
+     * Destroying objects permanently
+     */
+    router.delete('/classes/:className/:id/purge', async (req, res, next) => {
+        // Get parameters
+        const { className, id } = req.params;
+        const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
+
+        try {
+            // Purge class
+            const classInstance = await controller.purge({ className, id, user, master });
+
+            // Return response
+            req[InternalKeys.Middleware.Result] = classInstance;
+            api.response.success(req, res, next);
+        } catch (err) {
+            // Check if class was not found
+            if (err.code === Error.Code.ClassNotFound) {
+                api.logger.warn(err, `Could not purge the object for \`${className}\`: ${err.message}`);
+                next();
+            } else {
+                api.logger.error(err, `Could not purge the object for \`${className}\`: ${err.message}`);
+                api.response.error(err, req, res, next);
+            }
+        }
+    });
+
     return router;
 };
 
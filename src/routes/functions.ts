@@ -25,11 +25,12 @@ const functions = (api: Warp): express.Router => {
         // Get parameters
         const { functionName } = req.params;
         const user = req[InternalKeys.Middleware.User];
+        const master = req[InternalKeys.Middleware.Master];
         const keys = req.method.toLowerCase() === 'get' ? req.query : req.body;
 
         try {
             // Run function
-            const result = await controller.run({ functionName, keys, user });
+            const result = await controller.run({ functionName, keys, user, master });
 
             // Return response
             req[InternalKeys.Middleware.Result] = result;
@@ -34,6 +34,25 @@ const middleware = (api: Warp) => {
         } else next();
     });
 
+    /**
+     * Validate the Master Key, if provided
+     */
+    router.use((req, res, next) => {
+        const key = req.get(InternalKeys.Middleware.MasterKey);
+
+        // If no master key was provided, proceed as a regular request
+        if (typeof key === 'undefined') {
+            req[InternalKeys.Middleware.Master] = false;
+            next();
+        } else if (!api.masterKey || key !== api.masterKey) {
+            const error = new Error(Error.Code.InvalidAPIKey, 'Invalid Master Key');
+            next(error);
+        } else {
+            req[InternalKeys.Middleware.Master] = true;
+            next();
+        }
+    });
+
     /**
      * Add the data mapper to req.classes
      */
@@ -9,6 +9,14 @@ export interface ClassOptions<U extends User | undefined> {
     master?: boolean;
 }
 
+export interface SaveOptions<U extends User | undefined> extends ClassOptions<U> {
+    refresh?: boolean;
+}
+
+export interface UpsertOptions<U extends User | undefined> extends SaveOptions<U> {
+    conflictKeys: string[];
+}
+
 export interface ClassKeys {
     [InternalId]?: ClassId;
     [key: string]: any;
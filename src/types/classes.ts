@@ -9,7 +9,30 @@ export interface FindOptionsType {
     sort?: string[];
     skip?: number;
     limit?: number;
+    after?: string;
+    before?: string;
     user: User | null;
+    master?: boolean;
+}
+
+export interface CountOptionsType {
+    className: string;
+    where?: {[name: string]: {[name: string]: any}};
+    user: User | null;
+    master?: boolean;
+}
+
+export interface AggregateOptionsType {
+    className: string;
+    aggregate?: {[alias: string]: {[type: string]: string}};
+    groupBy?: string[];
+    having?: {[name: string]: {[name: string]: any}};
+    where?: {[name: string]: {[name: string]: any}};
+    sort?: string[];
+    skip?: number;
+    limit?: number;
+    user: User | null;
+    master?: boolean;
 }
 
 export interface GetOptionsType {
@@ -18,12 +41,14 @@ export interface GetOptionsType {
     select?: string[];
     include?: string[];
     user: User | null;
+    master?: boolean;
 }
 
 export interface CreateOptionsType {
     className: string;
     keys: {[name: string]: any};
     user: User | null;
+    master?: boolean;
 }
 
 export interface UpdateOptionsType {
@@ -31,10 +56,25 @@ export interface UpdateOptionsType {
     id: ClassId;
     keys: {[name: string]: any};
     user: User | null;
+    master?: boolean;
 }
 
 export interface DestroyOptionsType {
     className: string;
     id: ClassId;
     user: User | null;
+    master?: boolean;
+}
+
+export interface RestoreOptionsType {
+    className: string;
+    id: ClassId;
+    master?: boolean;
+}
+
+export interface PurgeOptionsType {
+    className: string;
+    id: ClassId;
+    user: User | null;
+    master?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+import Warp from '../index';
+
+export interface CommandOptions { [option: string]: string | boolean; }
+
+export type Command = (api: Warp, args: string[], options: CommandOptions) => Promise<void>;
\ No newline at end of file
@@ -1,8 +1,11 @@
 import Relation from '../features/orm/relation';
+import Query from '../features/orm/query';
+import Class from '../features/orm/class';
 import KeyMap from '../utils/key-map';
 import ConstraintMap from '../utils/constraint-map';
 import { ILogger } from './logger';
 import { ClassId } from './class';
+import { TableSchema, MigrationOperation } from './migrations';
 
 export type DatabaseAction = 'read' | 'write';
 
@@ -17,10 +20,33 @@ export interface IDatabaseAdapter {
         sorting: string[],
         skipped: number,
         limitation: number,
+        action?: DatabaseAction,
     ): Promise<KeyMap[]>;
+    count(
+        source: [string, string],
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+    ): Promise<number>;
+    aggregate(options: AggregateOptionsType): Promise<AggregateRow[]>;
     create(source: string, keys: KeyMap): Promise<ClassId>;
-    update(source: string, keys: KeyMap, id: ClassId): Promise<void>;
+    createMany(source: string, rows: KeyMap[]): Promise<ClassId[]>;
+    upsert(source: string, keys: KeyMap, conflictKeys: string[], updateKeys: KeyMap): Promise<ClassId>;
+    update(source: string, keys: KeyMap, id: ClassId, conditions?: KeyMap): Promise<number>;
+    updateMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<number>;
     destroy(source: string, keys: KeyMap, id: ClassId): Promise<void>;
+    destroyMany(source: string, keys: KeyMap, ids: ClassId[]): Promise<void>;
+    forceDestroy(source: string, id: ClassId): Promise<void>;
+    forceDestroyMany(source: string, ids: ClassId[]): Promise<void>;
+    attach(through: string, rows: KeyMap[]): Promise<void>;
+    detach(through: string, constraints: ConstraintMap): Promise<void>;
+    transaction(): Promise<IDatabaseTransaction>;
+    describe(): Promise<TableSchema[]>;
+    migrate(operations: MigrationOperation[]): Promise<void>;
+}
+
+export interface IDatabaseTransaction extends IDatabaseAdapter {
+    commit(): Promise<void>;
+    rollback(): Promise<void>;
 }
 
 export declare const IDatabaseAdapter: {
@@ -62,6 +88,27 @@ export interface QueryOptionsType {
     limitation: number;
 }
 
+export interface AggregateObject {
+    type: string;
+    key: string;
+}
+
+export interface AggregateRow {
+    [alias: string]: any;
+}
+
+export interface AggregateOptionsType {
+    source: [string, string];
+    aggregates: Map<string, AggregateObject>;
+    groupings: Map<string, string>;
+    relations: Map<string, Relation>;
+    constraints: ConstraintMap;
+    having: ConstraintMap;
+    sorting: string[];
+    skipped: number;
+    limitation: number;
+}
+
 export interface FindClauseOptionsType {
     source: [string, string];
     columns: Map<string, string>;
@@ -69,6 +116,17 @@ export interface FindClauseOptionsType {
     constraints: ConstraintMap;
 }
 
+/**
+ * A subquery on a related class, correlated to the parent query
+ * @description `correlations` are pairs of keys from the subquery and the parent query that must be equal.
+ * If the classes are linked through a pivot table, it is joined to the subquery `on` the pair of keys.
+ */
+export interface RelatedSubqueryType {
+    query: Query<typeof Class>;
+    through?: { source: [string, string], on: [string, string] };
+    correlations: Array<[string, string]>;
+}
+
 export interface SubqueryOptionsType {
     className: string;
     select: Map<string, string>;
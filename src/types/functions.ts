@@ -12,4 +12,5 @@ export interface RunOptionsType {
     functionName: string;
     keys?: {[name: string]: any};
     user: User | null;
+    master?: boolean;
 }
\ No newline at end of file
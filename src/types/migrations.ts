@@ -0,0 +1,60 @@
+/**
+ * A column of a table
+ * @description `type` is either the type of a key, i.e. `string` or `relation`, or a raw database type
+ */
+export interface ColumnSchema {
+    name: string;
+    type: string;
+}
+
+export interface IndexSchema {
+    name: string;
+    columns: string[];
+}
+
+export interface ForeignKeySchema {
+    name: string;
+    column: string;
+    references: [string, string];
+}
+
+/**
+ * A table, along with its indexes and foreign keys when they are known
+ */
+export interface TableSchema {
+    name: string;
+    columns: ColumnSchema[];
+    indexes?: IndexSchema[];
+    foreignKeys?: ForeignKeySchema[];
+}
+
+/**
+ * The table that a class expects, along with the indexes and foreign keys of its relations
+ */
+export interface ClassSchema extends TableSchema {
+    indexes: IndexSchema[];
+    foreignKeys: ForeignKeySchema[];
+}
+
+export interface MigrationOperation {
+    type: string;
+    table: string;
+    columns?: ColumnSchema[];
+    index?: IndexSchema;
+    foreignKey?: ForeignKeySchema;
+}
+
+export interface GenerateOptions {
+    drop?: boolean;
+}
+
+export interface MigrationFile {
+    up: MigrationOperation[];
+    down: MigrationOperation[];
+}
+
+export interface MigrationStatus {
+    name: string;
+    batch?: number;
+    applied: boolean;
+}
@@ -1,6 +1,16 @@
 import Class from '../features/orm/class';
-import { RelationDefinition } from '../features/orm/relation';
+import { RelationDefinition, HasManyDefinition, BelongsToManyDefinition } from '../features/orm/relation';
 
 export type ClassCaller<C extends typeof Class> = (type?: any) => C;
 
-export interface RelationsMap { [name: string]: RelationDefinition<typeof Class>; }
\ No newline at end of file
+export interface RelationsMap { [name: string]: RelationDefinition<typeof Class>; }
+
+export interface HasManyMap { [name: string]: HasManyDefinition<typeof Class>; }
+
+export interface BelongsToManyMap { [name: string]: BelongsToManyDefinition<typeof Class>; }
+
+export interface BelongsToManyOptions {
+    through: string;
+    foreignKey?: string;
+    relatedKey?: string;
+}
@@ -7,6 +7,7 @@ import User from '../features/auth/user';
  */
 export interface MiddlewareRequest<U extends User | undefined> {
     user: U;
+    master: boolean;
     classes: ClassManager;
 }
 
@@ -1,10 +1,12 @@
-import { URIConfig } from './database';
+import { URIConfig, IDatabaseAdapter } from './database';
 
 export interface ServerConfigType {
-    databaseURI: string | URIConfig[];
+    databaseURI?: string | URIConfig[];
+    database?: IDatabaseAdapter;
     apiKey?: string;
     masterKey?: string;
     persistent?: boolean;
     customResponse?: boolean;
     restful?: boolean;
+    migrationsDirectory?: string;
 }
\ No newline at end of file
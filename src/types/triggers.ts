@@ -10,6 +10,7 @@ import {
 import Query from '../features/orm/query';
 import Class from '../features/orm/class';
 import User from '../features/auth/user';
+import { ClassKeys } from './class';
 import { ClassManager, ClassOptions } from '..';
 
 export type TriggerType = typeof TriggerBeforeFind
@@ -21,7 +22,7 @@ export type TriggerType = typeof TriggerBeforeFind
     | typeof TriggerAfterDestroy;
 
 export type TriggerQueryAction = <C extends typeof Class, U extends User>(query: Query<C>, opts: ClassOptions<U>) => any;
-export type TriggerMutationAction = <U extends User>(classes: ClassManager, opts: ClassOptions<U>) => any;
+export type TriggerMutationAction = <U extends User>(classes: ClassManager, opts: ClassOptions<U>, changes?: ClassKeys) => any;
 export type TriggerAction = TriggerQueryAction | TriggerMutationAction;
 
 export type TriggersList = Array<{ type: TriggerType, action: TriggerAction }>;
\ No newline at end of file
@@ -2,18 +2,39 @@ import Class from '../features/orm/class';
 import { toCamelCase } from './format';
 import { InternalId } from './constants';
 
+export interface CollectionCursors {
+    next: string | null;
+    previous: string | null;
+}
+
 export default class Collection<T extends Class> {
 
     private collection: T[];
+    private cursors: CollectionCursors;
 
-    constructor(collection: T[]) {
+    constructor(collection: T[], cursors: CollectionCursors = { next: null, previous: null }) {
         this.collection = collection;
+        this.cursors = cursors;
     }
 
     get length(): number {
         return this.collection.length;
     }
 
+    /**
+     * Cursor for the page after the collection, if there are more Objects to fetch
+     */
+    get nextCursor(): string | null {
+        return this.cursors.next;
+    }
+
+    /**
+     * Cursor for the page before the collection
+     */
+    get previousCursor(): string | null {
+        return this.cursors.previous;
+    }
+
     public count(): number {
         return this.length;
     }
@@ -143,8 +164,9 @@ export default class Collection<T extends Class> {
 
         return {
             next: () => {
-                // Return iterator result
-                return { value: this.collection[index++], done: index >= this.collection.length };
+                // Return iterator result, including the last item
+                const done = index >= this.collection.length;
+                return { value: this.collection[index++], done };
             },
         };
     }
@@ -3,6 +3,7 @@ export const CreatedAt = 'created_at';
 export const UpdatedAt = 'updated_at';
 export const DeletedAt = 'deleted_at';
 export const InternalTimestamps = Object.freeze({ CreatedAt, UpdatedAt, DeletedAt });
+export const Trashed = Object.freeze({ Without: 'without', With: 'with', Only: 'only' });
 
 export const TriggerBeforeFind = 'before-find';
 export const TriggerBeforeFirst = 'before-first';
@@ -16,7 +17,27 @@ export const SortSymbol = '-';
 export const SortAscending = 'ascending';
 export const SortDescending = 'descending';
 
+export const Aggregates = Object.freeze({
+    Count: 'count',
+    Sum: 'sum',
+    Average: 'avg',
+    Minimum: 'min',
+    Maximum: 'max',
+});
+
+export const MigrationOperations = Object.freeze({
+    CreateTable: 'create-table',
+    DropTable: 'drop-table',
+    AddColumn: 'add-column',
+    DropColumn: 'drop-column',
+    AddIndex: 'add-index',
+    DropIndex: 'drop-index',
+    AddForeignKey: 'add-foreign-key',
+    DropForeignKey: 'drop-foreign-key',
+});
+
 export const RelationDelimiter = '.';
+export const RelationAliasDelimiter = '__';
 export const RelationTypeName = 'Relation';
 
 export const CompoundDelimiter = '|';
@@ -30,7 +51,9 @@ export const InternalKeys = Object.freeze({
         ApiKey: 'X-Warp-API-Key',
         MasterKey: 'X-Warp-Master-Key',
         User: 'user',
+        Master: 'master',
         Result: 'result',
+        Meta: 'meta',
         ClassManager: 'classes',
     }),
     Relations: Object.freeze({
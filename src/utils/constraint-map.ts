@@ -1,3 +1,4 @@
+import enforce from 'enforce-js';
 import Error from './error';
 
 export interface ConstraintObject {
@@ -6,6 +7,11 @@ export interface ConstraintObject {
     value: any;
 }
 
+export interface ConstraintGroup {
+    type: string;
+    maps: ConstraintMap[];
+}
+
 export class KeyConstraints {
 
     /**
@@ -58,6 +64,11 @@ export const Subqueries = Object.freeze({
     NotFoundInAll: 'nfa',
 });
 
+export const RelationSubqueries = Object.freeze({
+    HasRelated: 'hr',
+    DoesNotHaveRelated: 'nhr',
+});
+
 export const Constraints = Object.freeze({
     EqualTo: 'eq',
     NotEqualTo: 'neq',
@@ -75,6 +86,12 @@ export const Constraints = Object.freeze({
     ContainsEither: 'hasi',
     ContainsAll: 'hasa',
     ...Subqueries,
+    ...RelationSubqueries,
+});
+
+export const ConstraintGroups = Object.freeze({
+    Or: '$or',
+    And: '$and',
 });
 
 export default class ConstraintMap {
@@ -83,22 +100,73 @@ export default class ConstraintMap {
      * Private properties
      */
     private map: { [key: string]: KeyConstraints } = {};
+    private groupList: ConstraintGroup[] = [];
 
     /**
      * Constructor
      * @param {Object} keyValuePairs
      */
-    constructor(constraints: {[key: string]: { [key: string]: any }} = {}) {
+    constructor(constraints: {[key: string]: any} = {}) {
         // Populate map
         for (const key in constraints) {
-            this.map[key] = new KeyConstraints(key, constraints[key]);
+            if (ConstraintMap.isGroup(key))
+                this.group(key, ConstraintMap.validateGroup(key, constraints[key]).map(item => new ConstraintMap(item)));
+            else
+                this.map[key] = new KeyConstraints(key, constraints[key]);
         }
     }
 
+    /**
+     * Check that a group is a list of constraint objects
+     * @description Groups may come from request parameters, so a malformed
+     * group is an invalid query rather than a server error
+     * @param {String} key
+     * @param {Array} group
+     */
+    public static validateGroup(key: string, group: any): Array<{[key: string]: any}> {
+        try {
+            enforce`${{ [key]: group }} as an array`;
+            for (const item of group) {
+                // Enforce accepts null as an object
+                if (item === null) throw new Error(Error.Code.InvalidQuery, `\`${key}\` contains null`);
+                enforce`${{ [`${key} item`]: item }} as an object`;
+            }
+        } catch (err) {
+            throw new Error(Error.Code.InvalidQuery, `Constraint group \`${key}\` must be a list of constraints`);
+        }
+        return group;
+    }
+
+    /**
+     * Check if the key is for a group of constraints
+     * @param {String} key
+     */
+    public static isGroup(key: string): boolean {
+        return key === ConstraintGroups.Or || key === ConstraintGroups.And;
+    }
+
     get keys(): string[] {
         return Object.keys(this.map);
     }
 
+    get groups(): ConstraintGroup[] {
+        return this.groupList.slice();
+    }
+
+    /**
+     * Add a group of constraint maps
+     * @description The group is combined with the other constraints using `AND`,
+     * while the maps inside the group are combined using the group type
+     * @param {String} type
+     * @param {Array} maps
+     */
+    public group(type: string, maps: ConstraintMap[]) {
+        if (!ConstraintMap.isGroup(type))
+            throw new Error(Error.Code.ForbiddenOperation, `Constraint group not found: ${type}`);
+
+        this.groupList.push({ type, maps });
+    }
+
     public set(key: string, constraint: string, value: any) {
         const constraints = this.map[key] || new KeyConstraints(key, {});
         constraints.set(constraint, value);
@@ -127,9 +195,16 @@ export default class ConstraintMap {
     }
 
     public toJSON() {
-        return Object.keys(this.map).reduce((map, key) => {
+        const json = Object.keys(this.map).reduce((map, key) => {
             map[key] = this.map[key].toJSON();
             return map;
         }, {});
+
+        // Add groups, combining them with `$and` if there are several
+        const groups = this.groupList.map(({ type, maps }) => ({ [type]: maps.map(map => map.toJSON()) }));
+        if (groups.length === 1) Object.assign(json, groups[0]);
+        else if (groups.length > 1) json[ConstraintGroups.And] = groups;
+
+        return json;
     }
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import Error from './error';
+
+export interface CursorObject {
+    keys: string[];
+    values: any[];
+}
+
+export default class Cursor {
+
+    /**
+     * Encode the sort keys and their values into an opaque, url-safe string
+     * @param {Array} keys
+     * @param {Array} values
+     */
+    public static encode(keys: string[], values: any[]): string {
+        return Buffer.from(JSON.stringify([ keys, values ]))
+            .toString('base64')
+            .replace(/\+/g, '-')
+            .replace(/\//g, '_')
+            .replace(/=+$/, '');
+    }
+
+    /**
+     * Decode the sort keys and their values from a cursor
+     * @param {String} cursor
+     */
+    public static decode(cursor: string): CursorObject {
+        try {
+            const json = Buffer.from(cursor.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString();
+            const [ keys, values ] = JSON.parse(json);
+            if (!(keys instanceof Array) || !(values instanceof Array) || keys.length !== values.length) throw null;
+            return { keys, values };
+        } catch (err) {
+            throw new Error(Error.Code.ForbiddenOperation, 'Invalid cursor');
+        }
+    }
+
+}
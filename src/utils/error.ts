@@ -25,6 +25,8 @@ export default class WarpError extends Error {
             FunctionError: 113,
             TooManyRequests: 114,
             DatabaseError: 115,
+            VersionConflict: 116, // Object was modified by another request
+            InvalidQuery: 117, // Malformed query constraints
         });
     }
 
@@ -35,6 +37,7 @@ export default class WarpError extends Error {
             Forbidden: 403,
             NotFound: 404,
             RequestTimeout: 408,
+            Conflict: 409,
             TooManyRequests: 429,
         });
     }
@@ -56,6 +59,8 @@ export default class WarpError extends Error {
                 return this.statics().Status.NotFound;
         } else if (this.code === this.statics().Code.RequestTimeout) {
             return this.statics().Status.RequestTimeout;
+        } else if (this.code === this.statics().Code.VersionConflict) {
+            return this.statics().Status.Conflict;
         } else if (this.code === this.statics().Code.TooManyRequests) {
             return this.statics().Status.TooManyRequests;
         } else {
@@ -66,5 +71,8 @@ export default class WarpError extends Error {
     constructor(code: number, message: string) {
         super(message);
         this.code = code;
+
+        // Restore the prototype, which is lost when extending `Error` in ES5
+        Object.setPrototypeOf(this, new.target.prototype);
     }
 }
\ No newline at end of file
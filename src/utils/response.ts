@@ -15,12 +15,13 @@ export default class Response {
         if (this.customResponse)
             next();
         else {
-            // Set result
+            // Set result, and any details that accompany it
             const result = req[InternalKeys.Middleware.Result];
+            const meta = req[InternalKeys.Middleware.Meta] || {};
 
             // Set status and response
             res.status(200);
-            res.json({ result });
+            res.json({ result, ...meta });
         }
     }
 
@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Query, DatabaseAdapter, KeyMap, ConstraintMap, Relation, ClassId, define, key } from '../../../dist';
+import MemoryDatabaseAdapter from '../../../dist/adapters/database/memory';
+import Logger from '../../../dist/adapters/logger';
+import Error from '../../../dist/utils/error';
+
+@define class Item extends Class {
+    @key public code: string;
+    @key public quantity: number;
+}
+
+/**
+ * An adapter that only implements the required methods, on top of the in-memory database
+ */
+class CoreDatabaseAdapter extends DatabaseAdapter {
+
+    private memory = new MemoryDatabaseAdapter({ uris: [], persistent: false, logger: Logger.use('console', 'Test', 'disabled') });
+
+    public async initialize() {
+        await this.memory.initialize();
+    }
+
+    public async find(
+        source: [string, string],
+        columns: Map<string, string>,
+        relations: Map<string, Relation>,
+        constraints: ConstraintMap,
+        sorting: string[],
+        skipped: number,
+        limitation: number,
+    ) {
+        return await this.memory.find(source, columns, relations, constraints, sorting, skipped, limitation);
+    }
+
+    public async create(source: string, keys: KeyMap) {
+        return await this.memory.create(source, keys);
+    }
+
+    public async update(source: string, keys: KeyMap, id: ClassId, conditions?: KeyMap) {
+        return await this.memory.update(source, keys, id, conditions);
+    }
+
+    public async destroy(source: string, keys: KeyMap, id: ClassId) {
+        await this.memory.destroy(source, keys, id);
+    }
+}
+
+describe('DatabaseAdapter', () => {
+    let warp: Warp;
+
+    beforeEach(async () => {
+        warp = new Warp({ database: new CoreDatabaseAdapter });
+        warp.classes.register({ Item });
+        for (let quantity = 1; quantity <= 150; quantity++)
+            await warp.classes.save(new Item({ code: `item-${quantity}`, quantity }));
+    });
+
+    it('counts objects through find', async () => {
+        expect(await warp.classes.count(new Query(Item))).to.equal(150);
+        expect(await warp.classes.count(new Query(Item).greaterThan('quantity', 140))).to.equal(10);
+    });
+
+    it('upserts objects through find, create and update', async () => {
+        const id = await warp.classes.upsert(new Item({ code: 'item-2', quantity: 20 }), { conflictKeys: [ 'code' ] });
+        expect(id).to.equal(2);
+        expect((await warp.classes.getById(Item, 2))!.quantity).to.equal(20);
+
+        const newId = await warp.classes.upsert(new Item({ code: 'item-151', quantity: 151 }), { conflictKeys: [ 'code' ] });
+        expect(newId).to.equal(151);
+    });
+
+    it('throws for capabilities that cannot be emulated', async () => {
+        try {
+            await warp.classes.aggregate(new Query(Item).sum('quantity'));
+            expect.fail();
+        } catch (err) {
+            expect(err.code).to.equal(Error.Code.ForbiddenOperation);
+            expect(err.message).to.contain('aggregate');
+        }
+    });
+});
@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Query, define, key } from '../../../dist';
+import { getSchemasFrom, getOperationsFrom } from '../../../dist/features/migrations/schema';
+import { open } from '../../helpers';
+
+@define class Owner extends Class {
+    @key public name: string;
+}
+
+@define class Pet extends Class {
+    @key public name: string;
+    @key public age: number;
+    @key public owner: Owner;
+}
+
+describe('MemoryDatabaseAdapter', () => {
+    let warp: Warp;
+
+    beforeEach(async () => {
+        warp = new Warp({ databaseURI: 'memory://' });
+        warp.classes.register({ Owner, Pet });
+        const owner = await warp.classes.save(new Owner({ name: 'Ann' }));
+        for (const [ name, age ] of [ [ 'Rex', 3 ], [ 'Fido', 5 ], [ 'Max', 1 ] ])
+            await warp.classes.save(new Pet({ name, age, owner }));
+    });
+
+    it('creates objects with incrementing ids and timestamps', async () => {
+        const pet = await warp.classes.getById(Pet, 2);
+        expect(pet).to.not.equal(null);
+        expect(pet!.id).to.equal(2);
+        expect(pet!.name).to.equal('Fido');
+        expect(pet!.createdAt).to.be.a('string');
+        expect(pet!.updatedAt).to.be.a('string');
+    });
+
+    it('finds objects with constraints, sorting and pagination', async () => {
+        const pets = await warp.classes.find(new Query(Pet).greaterThan('age', 1).sortByDescending('age'));
+        expect(pets.map(pet => pet.name)).to.deep.equal([ 'Fido', 'Rex' ]);
+
+        const page = await warp.classes.find(new Query(Pet).sortBy('age').skip(1).limit(1));
+        expect(page.map(pet => pet.name)).to.deep.equal([ 'Rex' ]);
+    });
+
+    it('includes the keys of relations', async () => {
+        const pet = await warp.classes.first(new Query(Pet).include('owner.name').equalTo('owner.name', 'Ann'));
+        expect(pet).to.not.equal(null);
+        expect(pet!.owner.name).to.equal('Ann');
+    });
+
+    it('updates objects, including increments', async () => {
+        const pet = await warp.classes.getById(Pet, 1);
+        pet!.name = 'Rexy';
+        pet!.increment('age', 2);
+        await warp.classes.save(pet!);
+
+        const updated = await warp.classes.getById(Pet, 1);
+        expect(updated!.name).to.equal('Rexy');
+        expect(updated!.age).to.equal(5);
+    });
+
+    it('soft deletes objects', async () => {
+        const pet = await warp.classes.getById(Pet, 3);
+        await warp.classes.destroy(pet!);
+
+        const pets = await warp.classes.find(new Query(Pet));
+        expect(pets.map(item => item.id)).to.not.include(3);
+        expect(await warp.classes.getById(Pet, 3)).to.equal(null);
+    });
+
+    it('restores the tables and their schemas when a transaction is rolled back', async () => {
+        const database = await open('memory://');
+        await database.migrate(getOperationsFrom(getSchemasFrom([ Owner ]), []));
+
+        const tx = await database.transaction();
+        await tx.migrate(getOperationsFrom(getSchemasFrom([ Owner, Pet ]), await tx.describe()));
+        expect((await tx.describe()).map(table => table.name)).to.include('pet');
+        await tx.rollback();
+
+        expect((await database.describe()).map(table => table.name)).to.deep.equal([ 'owner' ]);
+    });
+});
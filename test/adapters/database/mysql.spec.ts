@@ -0,0 +1,15 @@
+import { expect } from 'chai';
+import MySQLDialect from '../../../dist/adapters/database/mysql/dialect';
+
+describe('MySQLDialect', () => {
+    it('derives the ids of inserted rows from the id of the first row', () => {
+        const dialect = new MySQLDialect;
+        expect(dialect.insertedIds({ id: 10, rows: [] }, 3)).to.deep.equal([ 10, 11, 12 ]);
+    });
+
+    it('derives the ids of inserted rows with the step of auto-increment ids', () => {
+        const dialect = new MySQLDialect;
+        dialect.autoIncrementStep = 3;
+        expect(dialect.insertedIds({ id: 4, rows: [] }, 3)).to.deep.equal([ 4, 7, 10 ]);
+    });
+});
@@ -0,0 +1,23 @@
+import { expect } from 'chai';
+import { parse } from '../../dist/cli';
+
+describe('CLI', () => {
+    describe('parse', () => {
+        it('splits the arguments into positional arguments and options', () => {
+            expect(parse([ 'migrate', 'generate', 'add_dogs', '--app=dist/warp.js' ]))
+                .to.deep.equal([ [ 'migrate', 'generate', 'add_dogs' ], { app: 'dist/warp.js' } ]);
+        });
+
+        it('sets options without a value as flags', () => {
+            expect(parse([ 'migrate', 'generate', '--drop' ])).to.deep.equal([ [ 'migrate', 'generate' ], { drop: true } ]);
+        });
+
+        it('keeps the equal signs inside the values of options', () => {
+            expect(parse([ 'seed', '--seeds=dir=a' ])).to.deep.equal([ [ 'seed' ], { seeds: 'dir=a' } ]);
+        });
+
+        it('returns no arguments when none are given', () => {
+            expect(parse([])).to.deep.equal([ [], {} ]);
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import Warp, { Class, Query, define, key } from '../../../dist';
+import Error from '../../../dist/utils/error';
+import { MigrationOperations } from '../../../dist/utils/constants';
+import { IDatabaseAdapter } from '../../../dist/types/database';
+import { DatabaseURIs, open } from '../../helpers';
+
+@define class Breeder extends Class {
+    @key public name: string;
+}
+
+@define class Puppy extends Class {
+    @key public name: string;
+    @key public breeder: Breeder;
+}
+
+@define({ className: 'puppy' }) class Stray extends Class {
+    @key public name: string;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`MigrationManager (${uri})`, () => {
+        let directory: string;
+        let database: IDatabaseAdapter;
+
+        /**
+         * Create a Warp instance on the shared database, with the given classes
+         * @param {Object} classes
+         */
+        const connect = (classes: { [name: string]: typeof Class }) => {
+            const warp = new Warp({ database, migrationsDirectory: directory });
+            warp.classes.register(classes);
+            return warp;
+        };
+
+        /**
+         * Read the operations of a migration file
+         * @param {String} name
+         */
+        const read = (name: string) => JSON.parse(fs.readFileSync(path.join(directory, `${name}.json`), 'utf8'));
+
+        beforeEach(async () => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'warp-migrations-'));
+            database = await open(uri);
+        });
+
+        afterEach(() => {
+            for (const file of fs.readdirSync(directory)) fs.unlinkSync(path.join(directory, file));
+            fs.rmdirSync(directory);
+        });
+
+        it('generates, applies and rolls back migrations', async () => {
+            const warp = connect({ Breeder, Puppy });
+            const name = await warp.migrations.generate('create puppies');
+            expect(name).to.match(/^\d{14}_create_puppies$/);
+            expect(await warp.migrations.status()).to.deep.equal([ { name, applied: false } ]);
+
+            expect(await warp.migrations.up()).to.deep.equal([ name ]);
+            expect(await warp.migrations.status()).to.deep.equal([ { name, batch: 1, applied: true } ]);
+            expect(await warp.migrations.generate('nothing')).to.equal(undefined);
+
+            // The tables can be used
+            const breeder = await warp.classes.save(new Breeder({ name: 'Ann' }));
+            await warp.classes.save(new Puppy({ name: 'Rex', breeder }));
+            expect(await warp.classes.count(new Query(Puppy))).to.equal(1);
+
+            expect(await warp.migrations.down()).to.deep.equal([ name ]);
+            expect(await warp.migrations.status()).to.deep.equal([ { name, applied: false } ]);
+            expect((await database.describe()).map(table => table.name)).to.not.include('puppy');
+        });
+
+        it('requires confirmation to drop columns, and drops their indexes first', async () => {
+            const warp = connect({ Breeder, Puppy });
+            await warp.migrations.generate('create puppies');
+            await warp.migrations.up();
+
+            // Puppies no longer have breeders
+            const strays = connect({ Breeder, Stray });
+            let error: any;
+            try {
+                await strays.migrations.generate('remove breeders');
+            } catch (err) {
+                error = err;
+            }
+            expect(error).to.be.an.instanceof(Error).with.property('code', Error.Code.ForbiddenOperation);
+            expect(error.message).to.include('`puppy.breeder_id`');
+
+            const name = await strays.migrations.generate('remove breeders', { drop: true });
+            const { up } = read(name!);
+            expect(up.map(operation => [ operation.type, operation.table ])).to.deep.equal([
+                [ MigrationOperations.DropForeignKey, 'puppy' ],
+                [ MigrationOperations.DropIndex, 'puppy' ],
+                [ MigrationOperations.DropColumn, 'puppy' ],
+            ]);
+        });
+    });
+}
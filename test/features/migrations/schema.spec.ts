@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { Class, Collection, define, key, hasMany } from '../../../dist';
+import { getSchemasFrom, getOperationsFrom, getInversesOf, addIndexesTo } from '../../../dist/features/migrations/schema';
+import { MigrationOperations } from '../../../dist/utils/constants';
+
+@define class Comment extends Class {
+    @key public body: string;
+}
+
+@define class Post extends Class {
+    @key public title: string;
+    @key public published: boolean;
+
+    @hasMany(() => Comment, 'post_id')
+    public comments: Collection<Comment>;
+}
+
+@define class Reply extends Class {
+    @key public body: string;
+    @key public post: Post;
+}
+
+describe('Migration schemas', () => {
+    describe('getSchemasFrom', () => {
+        it('adds the columns of keys and timestamps', () => {
+            const [ post ] = getSchemasFrom([ Post ]);
+            expect(post.columns.map(column => column.name)).to.deep.equal([ 'id', 'title', 'published', 'created_at', 'updated_at', 'deleted_at' ]);
+            expect(post.columns[2].type).to.equal('boolean');
+        });
+
+        it('adds the relation columns, along with their indexes and foreign keys', () => {
+            const [ , reply ] = getSchemasFrom([ Post, Reply ]);
+            expect(reply.columns.find(column => column.name === 'post_id')).to.deep.equal({ name: 'post_id', type: 'relation' });
+            expect(reply.indexes).to.deep.equal([ { name: 'reply_post_id_index', columns: [ 'post_id' ] } ]);
+            expect(reply.foreignKeys).to.deep.equal([ { name: 'reply_post_id_foreign', column: 'post_id', references: [ 'post', 'id' ] } ]);
+        });
+
+        it('adds the foreign keys of hasMany relations to their children', () => {
+            for (const classTypes of [ [ Post, Comment ], [ Comment, Post ] ]) {
+                const comment = getSchemasFrom(classTypes).find(schema => schema.name === 'comment')!;
+                expect(comment.columns[0].name).to.equal('id');
+                expect(comment.columns.find(column => column.name === 'post_id')).to.deep.equal({ name: 'post_id', type: 'relation' });
+                expect(comment.foreignKeys.map(foreignKey => foreignKey.references)).to.deep.equal([ [ 'post', 'id' ] ]);
+            }
+        });
+    });
+
+    describe('getOperationsFrom', () => {
+        const [ reply ] = getSchemasFrom([ Reply ]);
+        const liveReply = { name: 'reply', columns: [ ...reply.columns, { name: 'author_id', type: 'INTEGER' } ] };
+        const applied = [
+            { type: MigrationOperations.AddIndex, table: 'reply', index: { name: 'reply_author_id_index', columns: [ 'author_id' ] } },
+            {
+                type: MigrationOperations.AddForeignKey,
+                table: 'reply',
+                foreignKey: { name: 'reply_author_id_foreign', column: 'author_id', references: [ 'author', 'id' ] as [ string, string ] },
+            },
+        ];
+
+        it('creates the missing tables, and constrains them last', () => {
+            const operations = getOperationsFrom([ reply ], []);
+            expect(operations.map(operation => operation.type)).to.deep.equal([
+                MigrationOperations.CreateTable,
+                MigrationOperations.AddIndex,
+                MigrationOperations.AddForeignKey,
+            ]);
+        });
+
+        it('drops the indexes and foreign keys of dropped columns first', () => {
+            const operations = getOperationsFrom([ reply ], addIndexesTo([ liveReply ], applied));
+            expect(operations.map(operation => operation.type)).to.deep.equal([
+                MigrationOperations.DropForeignKey,
+                MigrationOperations.DropIndex,
+                MigrationOperations.DropColumn,
+            ]);
+
+            // The inverses add the column back before its index and foreign key
+            expect(getInversesOf(operations).map(operation => operation.type)).to.deep.equal([
+                MigrationOperations.AddColumn,
+                MigrationOperations.AddIndex,
+                MigrationOperations.AddForeignKey,
+            ]);
+        });
+    });
+
+    describe('addIndexesTo', () => {
+        it('replays the indexes and foreign keys of the operations', () => {
+            const operations = getOperationsFrom(getSchemasFrom([ Post, Reply ]), []);
+            const [ reply ] = addIndexesTo([ { name: 'reply', columns: [] } ], [
+                ...operations,
+                { type: MigrationOperations.DropIndex, table: 'reply', index: { name: 'reply_post_id_index', columns: [ 'post_id' ] } },
+            ]);
+
+            expect(reply.indexes).to.deep.equal([]);
+            expect(reply.foreignKeys!.map(foreignKey => foreignKey.name)).to.deep.equal([ 'reply_post_id_foreign' ]);
+        });
+    });
+});
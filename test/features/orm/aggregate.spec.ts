@@ -0,0 +1,100 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Query, define, key } from '../../../dist';
+import Error from '../../../dist/utils/error';
+import { DatabaseURIs, connect, request } from '../../helpers';
+
+@define class Customer extends Class {
+    @key public name: string;
+    @key public email: string;
+}
+
+@define class Order extends Class {
+    @key public amount: number;
+    @key public status: string;
+    @key public customer: Customer;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`ClassManager.aggregate (${uri})`, () => {
+        let warp: Warp;
+
+        beforeEach(async () => {
+            warp = await connect(uri, { Customer, Order });
+            const ann = await warp.classes.save(new Customer({ name: 'Ann', email: 'ann@example.com' }));
+            const bob = await warp.classes.save(new Customer({ name: 'Bob', email: 'bob@example.com' }));
+            const orders: Array<[ number, string, Customer ]> = [
+                [ 100, 'paid', ann ],
+                [ 250, 'paid', ann ],
+                [ 50, 'pending', ann ],
+                [ 40, 'paid', bob ],
+                [ 10, 'pending', bob ],
+            ];
+            for (const [ amount, status, customer ] of orders)
+                await warp.classes.save(new Order({ amount, status, customer_id: customer.id }));
+        });
+
+        it('aggregates all of the objects without groups', async () => {
+            const query = new Query(Order).count('id', 'orders').sum('amount', 'total').min('amount').max('amount').avg('amount');
+            const rows = await warp.classes.aggregate(query);
+            expect(rows).to.deep.equal([ { orders: 5, total: 450, min_amount: 10, max_amount: 250, avg_amount: 90 } ]);
+        });
+
+        it('aggregates the objects that match the constraints', async () => {
+            const rows = await warp.classes.aggregate(new Query(Order).sum('amount', 'total').equalTo('status', 'pending'));
+            expect(rows).to.deep.equal([ { total: 60 } ]);
+        });
+
+        it('groups the aggregates by keys', async () => {
+            const query = new Query(Order).sum('amount', 'total').count('id', 'orders').groupBy('status').sortBy('status');
+            expect(await warp.classes.aggregate(query)).to.deep.equal([
+                { status: 'paid', total: 390, orders: 3 },
+                { status: 'pending', total: 60, orders: 2 },
+            ]);
+        });
+
+        it('groups the aggregates by relation keys', async () => {
+            const query = new Query(Order).sum('amount').groupBy('customer.email').sortBy('-sum_amount');
+            expect(await warp.classes.aggregate(query)).to.deep.equal([
+                { 'customer.email': 'ann@example.com', 'sum_amount': 400 },
+                { 'customer.email': 'bob@example.com', 'sum_amount': 50 },
+            ]);
+        });
+
+        it('filters the aggregated rows with having', async () => {
+            const query = new Query(Order).sum('amount', 'total').groupBy('status', 'customer.name')
+                .having({ total: { gt: 50 } })
+                .sortBy('-total');
+            expect(await warp.classes.aggregate(query)).to.deep.equal([
+                { 'status': 'paid', 'customer.name': 'Ann', 'total': 350 },
+            ]);
+        });
+
+        it('filters the aggregated rows with groups of having constraints', async () => {
+            const query = new Query(Order).sum('amount', 'total').groupBy('status', 'customer.name')
+                .having({ $or: [ { total: { lt: 20 } }, { 'customer.name': { eq: 'Ann' }, 'status': { eq: 'pending' } } ] })
+                .sortBy('total');
+            expect(await warp.classes.aggregate(query)).to.deep.equal([
+                { 'status': 'pending', 'customer.name': 'Bob', 'total': 10 },
+                { 'status': 'pending', 'customer.name': 'Ann', 'total': 50 },
+            ]);
+        });
+
+        it('rejects having keys that are neither aggregates nor groupBy keys', () => {
+            expect(() => new Query(Order).sum('amount', 'total').groupBy('status').having({ amount: { gt: 1 } }))
+                .to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+        });
+
+        it('aggregates the objects through the aggregate endpoint', async () => {
+            const params = [
+                `aggregate=${encodeURIComponent('{"total":{"sum":"amount"},"orders":{"count":"id"}}')}`,
+                `group_by=${encodeURIComponent('["status"]')}`,
+                `having=${encodeURIComponent('{"total":{"gt":100}}')}`,
+                `where=${encodeURIComponent('{"amount":{"gt":10}}')}`,
+            ];
+            const response = await request(warp, `/classes/order/aggregate?${params.join('&')}`);
+            expect(response.status).to.equal(200);
+            expect(response.body.result).to.deep.equal([ { status: 'paid', total: 390, orders: 3 } ]);
+        });
+    });
+}
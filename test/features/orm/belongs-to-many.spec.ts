@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Collection, ConstraintMap, define, key, belongsToMany } from '../../../dist';
+import { IDatabaseAdapter } from '../../../dist/types/database';
+import { getSchemasFrom, getOperationsFrom } from '../../../dist/features/migrations/schema';
+import { DatabaseURIs, open } from '../../helpers';
+
+@define class Label extends Class {
+    @key public name: string;
+}
+
+@define class Crate extends Class {
+    @key public name: string;
+    @belongsToMany(() => Label, { through: 'crate_labels' }) public labels: Collection<Label>;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`ClassManager links (${uri})`, () => {
+        let database: IDatabaseAdapter;
+        let warp: Warp;
+        let first: Crate;
+        let second: Crate;
+
+        /**
+         * Get the names of the labels linked to a crate
+         * @param {Crate} crate
+         */
+        const labelsOf = async (crate: Crate) => {
+            const found = await warp.classes.getById(Crate, crate.id, [ 'labels' ]);
+            return found!.labels.map(label => label.name).sort();
+        };
+
+        /**
+         * Get the rows of the pivot table
+         */
+        const links = async () => {
+            const columns = new Map([ [ 'crate_labels.crate_id', 'crate_id' ], [ 'crate_labels.label_id', 'label_id' ] ]);
+            const sorting = [ 'crate_labels.crate_id', 'crate_labels.label_id' ];
+            const rows = await database.find([ 'crate_labels', 'crate_labels' ], columns, new Map, new ConstraintMap, sorting, 0, 100);
+            return rows.map(row => [ Number(row.get('crate_id')), Number(row.get('label_id')) ]);
+        };
+
+        beforeEach(async () => {
+            database = await open(uri);
+            await database.migrate(getOperationsFrom(getSchemasFrom([ Label, Crate ]), []));
+            warp = new Warp({ database });
+            warp.classes.register({ Label, Crate });
+
+            for (const name of [ 'red', 'green', 'blue' ]) await warp.classes.save(new Label({ name }));
+            first = await warp.classes.save(new Crate({ name: 'First' }));
+            second = await warp.classes.save(new Crate({ name: 'Second' }));
+            await warp.classes.attach(second, 'labels', [ 1 ]);
+        });
+
+        it('attaches objects and ids, skipping those that are already linked', async () => {
+            await warp.classes.attach(first, 'labels', [ new Label(1), 2 ]);
+            await warp.classes.attach(first, 'labels', [ 2, 3 ]);
+
+            expect(await labelsOf(first)).to.deep.equal([ 'blue', 'green', 'red' ]);
+            expect(await links()).to.deep.equal([ [ 1, 1 ], [ 1, 2 ], [ 1, 3 ], [ 2, 1 ] ]);
+        });
+
+        it('detaches the given objects', async () => {
+            await warp.classes.attach(first, 'labels', [ 1, 2, 3 ]);
+            await warp.classes.detach(first, 'labels', [ new Label(1), 3 ]);
+
+            expect(await labelsOf(first)).to.deep.equal([ 'green' ]);
+            expect(await labelsOf(second)).to.deep.equal([ 'red' ]);
+        });
+
+        it('detaches every object of the owner only', async () => {
+            await warp.classes.attach(first, 'labels', [ 1, 2 ]);
+            await warp.classes.detach(first, 'labels');
+
+            expect(await labelsOf(first)).to.deep.equal([]);
+            expect(await links()).to.deep.equal([ [ 2, 1 ] ]);
+        });
+
+        it('syncs the links to exactly the given objects', async () => {
+            await warp.classes.attach(first, 'labels', [ 1, 2 ]);
+            const { attached, detached } = await warp.classes.sync(first, 'labels', [ 2, new Label(3) ]);
+
+            expect(attached.map(Number)).to.deep.equal([ 3 ]);
+            expect(detached.map(Number)).to.deep.equal([ 1 ]);
+            expect(await labelsOf(first)).to.deep.equal([ 'blue', 'green' ]);
+            expect(await labelsOf(second)).to.deep.equal([ 'red' ]);
+
+            // Syncing again changes nothing
+            expect(await warp.classes.sync(first, 'labels', [ 2, 3 ])).to.deep.equal({ attached: [], detached: [] });
+        });
+
+        it('detaches every link when the adapter is given no constraints', async () => {
+            await database.detach('crate_labels', new ConstraintMap);
+            expect(await links()).to.deep.equal([]);
+        });
+    });
+}
@@ -0,0 +1,313 @@
+import 'reflect-metadata';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import Warp, { Class, ClassManager, ClassOptions, Query, define, key, version, beforeFind, beforeSave, beforeDestroy } from '../../../dist';
+import Error from '../../../dist/utils/error';
+import { ClassKeys } from '../../../dist/types/class';
+import { DatabaseURIs, connect } from '../../helpers';
+
+let finds = 0;
+let savedChanges: ClassKeys[] = [];
+let destroyedTitles: string[] = [];
+
+@define class Entry extends Class {
+    @key public title: string;
+    @key public archived: boolean;
+
+    @beforeFind
+    public hideArchived(query: Query<typeof Entry>) {
+        finds++;
+        query.notEqualTo('archived', true);
+    }
+
+    @beforeSave
+    public trackChanges(classes: ClassManager, opts: ClassOptions<any>, changes: ClassKeys) {
+        savedChanges.push(changes);
+    }
+
+    @beforeDestroy
+    public trackDestroy() {
+        destroyedTitles.push(this.title);
+    }
+}
+
+@define class Draft extends Class {
+    @key public body: string;
+    @version @key public revision: number;
+}
+
+@define({ softDeletes: false }) class Visit extends Class {
+    @key public page: string;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`ClassManager (${uri})`, () => {
+        let warp: Warp;
+
+        beforeEach(async () => {
+            warp = await connect(uri, { Entry, Draft, Visit });
+            for (let index = 1; index <= 7; index++)
+                await warp.classes.save(new Entry({ title: `Entry ${index}`, archived: index === 4 }));
+            finds = 0;
+            savedChanges = [];
+            destroyedTitles = [];
+        });
+
+        describe('stream', () => {
+            it('yields every object, a page at a time, and runs triggers once', async () => {
+                const titles: string[] = [];
+                for await (const entry of warp.classes.stream(new Query(Entry).sortBy('id').limit(2))) titles.push(entry.title);
+
+                expect(titles).to.deep.equal([ 'Entry 1', 'Entry 2', 'Entry 3', 'Entry 5', 'Entry 6', 'Entry 7' ]);
+                expect(finds).to.equal(1);
+            });
+
+            it('leaves the query unchanged', async () => {
+                const query = new Query(Entry).sortBy('id').limit(2);
+                for await (const entry of warp.classes.stream(query)) expect(entry).to.be.an.instanceof(Entry);
+
+                const page = await warp.classes.find(query);
+                expect(page.map(entry => entry.title)).to.deep.equal([ 'Entry 1', 'Entry 2' ]);
+            });
+        });
+
+        describe('chunk', () => {
+            it('processes the objects in chunks of the given size', async () => {
+                const query = new Query(Entry).sortBy('id').limit(4);
+                const chunks: string[][] = [];
+                await warp.classes.chunk(query, 3, async entries => chunks.push(entries.map(entry => entry.title)));
+
+                expect(chunks).to.deep.equal([ [ 'Entry 1', 'Entry 2', 'Entry 3' ], [ 'Entry 5', 'Entry 6', 'Entry 7' ] ]);
+                expect(finds).to.equal(1);
+
+                // The limit of the query is not replaced by the chunk size
+                expect(await warp.classes.find(query)).to.have.length(4);
+            });
+        });
+
+        describe('save', () => {
+            it('only writes the keys that changed', async () => {
+                const first = await warp.classes.getById(Entry, 1);
+                const second = await warp.classes.getById(Entry, 1);
+
+                first!.title = 'Renamed';
+                await warp.classes.save(first!);
+                second!.archived = true;
+                await warp.classes.save(second!);
+
+                const saved = await warp.classes.getById(Entry, 1);
+                expect(saved!.title).to.equal('Renamed');
+                expect(saved!.archived).to.equal(true);
+            });
+
+            it('passes the changes to the triggers', async () => {
+                const entry = await warp.classes.getById(Entry, 1);
+                entry!.title = 'Renamed';
+                await warp.classes.save(entry!);
+
+                expect(savedChanges).to.deep.equal([ { title: 'Renamed' } ]);
+                expect(entry!.isDirty()).to.equal(false);
+            });
+        });
+
+        describe('saveMany', () => {
+            it('returns the ids in order, and runs the triggers of each object', async () => {
+                const existing = await warp.classes.getById(Entry, 2);
+                existing!.title = 'Renamed';
+                const entries = [ new Entry({ title: 'First', archived: false }), existing!, new Entry({ title: 'Last', archived: false }) ];
+
+                const ids = await warp.classes.saveMany(entries);
+                expect(ids).to.deep.equal([ 8, 2, 9 ]);
+                expect(entries.map(entry => entry.id)).to.deep.equal(ids);
+                expect(savedChanges.map(changes => changes.title)).to.deep.equal([ 'First', 'Renamed', 'Last' ]);
+
+                const saved = await warp.classes.find(new Query(Entry).containedIn('id', ids).sortBy('id'));
+                expect(saved.map(entry => entry.title)).to.deep.equal([ 'Renamed', 'First', 'Last' ]);
+            });
+
+            it('creates objects in chunks when they exceed the bindings of a statement', async () => {
+                const entries = Array.from({ length: 600 }, (item, index) => new Entry({ title: `Bulk ${index}`, archived: false }));
+
+                const ids = await warp.classes.saveMany(entries);
+                expect(ids).to.deep.equal(entries.map((entry, index) => index + 8));
+
+                const saved = await warp.classes.find(new Query(Entry).greaterThan('id', 7).sortBy('id').limit(600));
+                expect(saved.map(entry => entry.title)).to.deep.equal(entries.map(entry => entry.title));
+            });
+        });
+
+        describe('updateMany', () => {
+            it('updates every matching object, a page at a time, and runs the triggers of each object', async () => {
+                const query = new Query(Entry).lessThan('id', 6).limit(2);
+                expect(await warp.classes.updateMany(query, { title: 'Updated' })).to.equal(4);
+                expect(savedChanges).to.have.length(4);
+
+                const entries = await warp.classes.find(new Query(Entry).sortBy('id'));
+                expect(entries.map(entry => entry.title)).to.deep.equal([ 'Updated', 'Updated', 'Updated', 'Updated', 'Entry 6', 'Entry 7' ]);
+            });
+        });
+
+        describe('destroyMany', () => {
+            it('destroys every matching object, a page at a time, and runs the triggers of each object', async () => {
+                const query = new Query(Entry).greaterThan('id', 2).sortBy('id').limit(2);
+                expect(await warp.classes.destroyMany(query)).to.equal(4);
+                expect(destroyedTitles).to.deep.equal([ 'Entry 3', 'Entry 5', 'Entry 6', 'Entry 7' ]);
+
+                const entries = await warp.classes.find(new Query(Entry).withTrashed().sortBy('id'));
+                expect(entries.map(entry => entry.title)).to.deep.equal([ 'Entry 1', 'Entry 2', 'Entry 3', 'Entry 5', 'Entry 6', 'Entry 7' ]);
+                expect(await warp.classes.count(new Query(Entry))).to.equal(2);
+            });
+        });
+
+        describe('version', () => {
+            it('increases the version on each save', async () => {
+                const draft = await warp.classes.save(new Draft({ body: 'First' }));
+                expect(draft.revision).to.equal(1);
+
+                draft.body = 'Second';
+                await warp.classes.save(draft);
+                const saved = await warp.classes.getById(Draft, draft.id);
+                expect(saved!.revision).to.equal(2);
+                expect(saved!.body).to.equal('Second');
+            });
+
+            it('throws a conflict when the object was saved since it was fetched', async () => {
+                const { id } = await warp.classes.save(new Draft({ body: 'First' }));
+                const first = await warp.classes.getById(Draft, id);
+                const second = await warp.classes.getById(Draft, id);
+
+                first!.body = 'Mine';
+                await warp.classes.save(first!);
+
+                second!.body = 'Theirs';
+                let error: any;
+                try {
+                    await warp.classes.save(second!);
+                } catch (err) {
+                    error = err;
+                }
+                expect(error).to.be.an.instanceof(Error).with.property('code', Error.Code.VersionConflict);
+                expect(error.status).to.equal(409);
+
+                const saved = await warp.classes.getById(Draft, id);
+                expect(saved!.body).to.equal('Mine');
+            });
+
+            it('does not check objects without their version', async () => {
+                const { id } = await warp.classes.save(new Draft({ body: 'First' }));
+                const draft = new Draft(id);
+                draft.body = 'Blind';
+                await warp.classes.save(draft);
+
+                const saved = await warp.classes.getById(Draft, id);
+                expect(saved!.body).to.equal('Blind');
+                expect(saved!.revision).to.equal(2);
+            });
+        });
+
+        describe('trashed', () => {
+            /**
+             * Find the titles of the matching entries, in order of creation
+             * @param {Query} query
+             */
+            const titles = async (query: Query<typeof Entry>) => (await warp.classes.find(query.sortBy('id'))).map(entry => entry.title);
+
+            beforeEach(async () => {
+                for (const id of [ 2, 3 ]) await warp.classes.destroy(new Entry(id));
+            });
+
+            it('excludes soft deleted objects by default', async () => {
+                expect(await titles(new Query(Entry))).to.deep.equal([ 'Entry 1', 'Entry 5', 'Entry 6', 'Entry 7' ]);
+            });
+
+            it('includes soft deleted objects with `withTrashed`, even without other constraints', async () => {
+                expect(await titles(new Query(Entry).withTrashed())).to.have.length(6);
+                expect(await warp.classes.count(new Query(Entry).withTrashed())).to.equal(6);
+            });
+
+            it('only finds soft deleted objects with `onlyTrashed`', async () => {
+                expect(await titles(new Query(Entry).onlyTrashed())).to.deep.equal([ 'Entry 2', 'Entry 3' ]);
+            });
+
+            it('restores soft deleted objects', async () => {
+                const [ entry ] = await warp.classes.find(new Query(Entry).onlyTrashed().equalTo('id', 2));
+                await warp.classes.restore(entry);
+                expect(await titles(new Query(Entry).onlyTrashed())).to.deep.equal([ 'Entry 3' ]);
+            });
+
+            it('permanently destroys objects', async () => {
+                await warp.classes.forceDestroy(new Entry(3));
+                await warp.classes.forceDestroy(new Entry(5));
+                expect(await titles(new Query(Entry).withTrashed())).to.deep.equal([ 'Entry 1', 'Entry 2', 'Entry 6', 'Entry 7' ]);
+            });
+
+            it('permanently destroys objects of classes without soft deletes', async () => {
+                for (const page of [ 'home', 'about' ]) await warp.classes.save(new Visit({ page }));
+                await warp.classes.destroy(new Visit(1));
+
+                const visits = await warp.classes.find(new Query(Visit));
+                expect(visits.map(visit => visit.page)).to.deep.equal([ 'about' ]);
+                expect(await warp.classes.count(new Query(Visit))).to.equal(1);
+            });
+        });
+    });
+}
+
+describe('ClassManager.refresh', () => {
+    const filename = path.join(os.tmpdir(), `warp-refresh-${process.pid}.db`);
+
+    afterEach(() => {
+        if (fs.existsSync(filename)) fs.unlinkSync(filename);
+    });
+
+    it('reads the object from the write database', async () => {
+        // The read database has no tables, as if it lagged behind
+        const warp = await connect(`sqlite://${filename}`, { Draft }, 'sqlite::memory:');
+        const draft = await warp.classes.save(new Draft({ body: 'First' }));
+
+        await warp.classes.refresh(draft);
+        expect(draft.body).to.equal('First');
+        expect(draft.createdAt).to.be.a('string');
+    });
+});
+
+// Upserts on SQL databases need a unique index on the conflict keys, which migrations do not create
+describe('ClassManager.upsert', () => {
+    let warp: Warp;
+
+    beforeEach(async () => {
+        warp = await connect('memory://', { Entry });
+        for (const title of [ 'Draft', 'Archived' ]) await warp.classes.save(new Entry({ title, archived: title === 'Archived' }));
+    });
+
+    it('creates the object if nothing conflicts with it', async () => {
+        const id = await warp.classes.upsert(new Entry({ title: 'New', archived: false }), { conflictKeys: [ 'title' ] });
+        expect(id).to.equal(3);
+    });
+
+    it('updates the object that has the same conflict keys', async () => {
+        const id = await warp.classes.upsert(new Entry({ title: 'Draft', archived: true }), { conflictKeys: [ 'title' ] });
+        expect(id).to.equal(1);
+
+        const entry = await warp.classes.getById(Entry, 1);
+        expect(entry!.archived).to.equal(true);
+    });
+
+    it('finds the existing object regardless of the find triggers', async () => {
+        const id = await warp.classes.upsert(new Entry({ title: 'Archived', archived: false }), { conflictKeys: [ 'title' ] });
+        expect(id).to.equal(2);
+        expect(await warp.classes.count(new Query(Entry).withTrashed())).to.equal(2);
+    });
+
+    it('restores the existing object if it was soft deleted', async () => {
+        await warp.classes.destroy(new Entry(1));
+        const id = await warp.classes.upsert(new Entry({ title: 'Draft', archived: false }), { conflictKeys: [ 'title' ] });
+        expect(id).to.equal(1);
+
+        const entry = await warp.classes.getById(Entry, 1);
+        expect(entry).to.not.equal(null);
+        expect(await warp.classes.count(new Query(Entry).onlyTrashed())).to.equal(0);
+    });
+});
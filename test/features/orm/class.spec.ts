@@ -0,0 +1,92 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { Class, Query, define, key, guarded } from '../../../dist';
+import Error from '../../../dist/utils/error';
+import { connect } from '../../helpers';
+
+@define class Author extends Class {
+    @key public name: string;
+}
+
+interface Preferences {
+    taste: string;
+}
+
+@define class Dog extends Class {
+    @key({ type: 'json' }) public preferences: Preferences;
+    @key({ type: 'array' }) public pseudonyms: string[];
+    @key public trained: boolean;
+}
+
+@define class Post extends Class {
+    @key public title: string;
+    @key public author: Author;
+    @key({ from: '*.editor_code' }) @guarded public editor: Author;
+}
+
+describe('Class', () => {
+    describe('fill', () => {
+        it('sets the relation of a foreign key', () => {
+            const post = new Post({ title: 'Hello', author_id: 3 });
+            expect(post.author).to.be.an.instanceof(Author);
+            expect(post.author.id).to.equal(3);
+        });
+
+        it('rejects foreign keys of guarded relations', () => {
+            expect(() => new Post({ editor_code: 3 })).to.throw(Error).with.property('code', Error.Code.ForbiddenOperation);
+        });
+
+        it('saves the relation of a foreign key', async () => {
+            const warp = await connect('memory://', { Author, Post });
+            const author = await warp.classes.save(new Author({ name: 'Ann' }));
+            await warp.classes.save(new Post({ title: 'Hello', author_id: author.id }));
+
+            const post = await warp.classes.first(new Query(Post).include('author.name'));
+            expect(post!.author.name).to.equal('Ann');
+        });
+    });
+
+    describe('keys', () => {
+        it('uses the type option instead of the inferred type', () => {
+            const dog = new Dog({ preferences: { taste: 'sweet' }, pseudonyms: [ 'Rex' ] });
+            expect(dog.keys.get('preferences')).to.equal('{"taste":"sweet"}');
+            expect(dog.preferences).to.deep.equal({ taste: 'sweet' });
+            expect(dog.keys.get('pseudonyms')).to.equal('["Rex"]');
+            expect(() => new Dog({ preferences: 'sweet' })).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+        });
+
+        it('reads booleans stored as numbers or as native booleans', () => {
+            const dog = new Dog;
+            for (const [ stored, trained ] of [ [ 1, true ], [ 0, false ], [ true, true ], [ false, false ] ]) {
+                dog.keys.set('trained', stored);
+                expect(dog.trained).to.equal(trained);
+            }
+        });
+    });
+
+    describe('dirty tracking', () => {
+        it('tracks the keys that changed since the object was synced', () => {
+            const post = new Post({ title: 'Hello' });
+            post.syncOriginal();
+            expect(post.isDirty()).to.equal(false);
+
+            post.title = 'Goodbye';
+            expect(post.isDirty()).to.equal(true);
+            expect(post.isDirty('title')).to.equal(true);
+            expect(post.getOriginal('title')).to.equal('Hello');
+            expect(post.getChanges()).to.deep.equal({ title: 'Goodbye' });
+        });
+
+        it('ignores values that are set back to the original', () => {
+            const post = new Post({ title: 'Hello', author_id: 3 });
+            post.syncOriginal();
+
+            post.title = 'Hello';
+            post.author = new Author(3);
+            expect(post.isDirty()).to.equal(false);
+
+            post.author = new Author(4);
+            expect(Object.keys(post.getChanges())).to.deep.equal([ 'author' ]);
+        });
+    });
+});
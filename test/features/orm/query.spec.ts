@@ -0,0 +1,228 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Query, define, key, hidden } from '../../../dist';
+import Error from '../../../dist/utils/error';
+import { DatabaseURIs, connect, request } from '../../helpers';
+
+@define class Task extends Class {
+    @key public title: string;
+    @key public status: string;
+    @key public assignee: string;
+    @key public priority: number;
+    @hidden @key public secret: string;
+}
+
+@define class Tag extends Class {
+    @key public name: string;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`Query (${uri})`, () => {
+        let warp: Warp;
+
+        /**
+         * Find the titles of the matching tasks, in order of creation
+         * @param {Query} query
+         */
+        const titles = async (query: Query<typeof Task>) => (await warp.classes.find(query.sortBy('id'))).map(task => task.title);
+
+        beforeEach(async () => {
+            warp = await connect(uri, { Task, Tag });
+            const tasks: Array<[ string, string, string, number ]> = [
+                [ 'Write', 'open', 'me', 1 ],
+                [ 'Review', 'closed', 'me', 2 ],
+                [ 'Deploy', 'open', 'you', 3 ],
+                [ 'Test', 'closed', 'you', 1 ],
+            ];
+            for (const [ title, status, assignee, priority ] of tasks)
+                await warp.classes.save(new Task({ title, status, assignee, priority }));
+        });
+
+        describe('groups', () => {
+            it('matches either of the queries with `or`', async () => {
+                const query = new Query(Task).or(
+                    new Query(Task).equalTo('status', 'open'),
+                    new Query(Task).equalTo('assignee', 'me'),
+                );
+                expect(await titles(query)).to.deep.equal([ 'Write', 'Review', 'Deploy' ]);
+            });
+
+            it('combines groups with the other constraints', async () => {
+                const query = new Query(Task).greaterThan('priority', 1).or(
+                    new Query(Task).equalTo('status', 'open'),
+                    new Query(Task).equalTo('assignee', 'me'),
+                );
+                expect(await titles(query)).to.deep.equal([ 'Review', 'Deploy' ]);
+            });
+
+            it('nests groups', async () => {
+                const query = new Query(Task).or(
+                    new Query(Task).and(
+                        new Query(Task).equalTo('status', 'closed'),
+                        new Query(Task).equalTo('assignee', 'you'),
+                    ),
+                    new Query(Task).equalTo('priority', 2),
+                );
+                expect(await titles(query)).to.deep.equal([ 'Review', 'Test' ]);
+            });
+
+            it('parses groups from where clauses', async () => {
+                const query = new Query(Task).where({
+                    $or: [
+                        { status: { eq: 'open' }, assignee: { eq: 'you' } },
+                        { $and: [ { status: { eq: 'closed' } }, { priority: { gt: 1 } } ] },
+                    ],
+                });
+                expect(await titles(query)).to.deep.equal([ 'Review', 'Deploy' ]);
+            });
+
+            it('counts objects that match groups', async () => {
+                const query = new Query(Task).or(new Query(Task).equalTo('title', 'Write'), new Query(Task).equalTo('title', 'Test'));
+                expect(await warp.classes.count(query)).to.equal(2);
+            });
+
+            it('rejects empty groups and queries for other classes', () => {
+                expect(() => new Query(Task).or()).to.throw(Error).with.property('code', Error.Code.MissingConfiguration);
+                expect(() => new Query(Task).or(new Query(Tag))).to.throw(Error).with.property('code', Error.Code.ForbiddenOperation);
+            });
+        });
+
+        describe('count endpoint', () => {
+            it('counts the objects that match the constraints', async () => {
+                const all = await request(warp, '/classes/task/count');
+                expect(all.status).to.equal(200);
+                expect(all.body.result).to.equal(4);
+
+                const where = encodeURIComponent('{"$or":[{"status":{"eq":"open"}},{"priority":{"gt":1}}]}');
+                const matching = await request(warp, `/classes/task/count?where=${where}`);
+                expect(matching.status).to.equal(200);
+                expect(matching.body.result).to.equal(3);
+            });
+        });
+
+        describe('cursors', () => {
+            /**
+             * Find the titles of every page, following the next cursors
+             * @param {Function} getQuery
+             * @param {Number} size
+             */
+            const walk = async (getQuery: () => Query<typeof Task>, size: number) => {
+                const pages: string[][] = [];
+                let cursor: string | null = null;
+                do {
+                    const query = getQuery().limit(size);
+                    const page = await warp.classes.find(cursor !== null ? query.after(cursor) : query);
+                    pages.push(page.map(task => task.title));
+                    cursor = page.nextCursor;
+                } while (cursor !== null);
+                return pages;
+            };
+
+            beforeEach(async () => {
+                for (const title of [ 'Idle', 'Later' ]) await warp.classes.save(new Task({ title, status: 'open', assignee: 'me' }));
+            });
+
+            it('pages through ascending keys, with nulls first', async () => {
+                const order = [ 'Idle', 'Later', 'Write', 'Test', 'Review', 'Deploy' ];
+                for (const size of [ 1, 2, 3, 4 ]) {
+                    const pages = await walk(() => new Query(Task).sortBy('priority'), size);
+                    expect(([] as string[]).concat(...pages)).to.deep.equal(order);
+                    expect(pages[0]).to.have.length(size);
+                }
+            });
+
+            it('pages through descending keys, with nulls last', async () => {
+                const order = [ 'Deploy', 'Review', 'Write', 'Test', 'Idle', 'Later' ];
+                for (const size of [ 1, 2, 3, 4 ]) {
+                    const pages = await walk(() => new Query(Task).sortByDescending('priority'), size);
+                    expect(([] as string[]).concat(...pages)).to.deep.equal(order);
+                }
+            });
+
+            it('goes back to the previous page', async () => {
+                const first = await warp.classes.find(new Query(Task).sortBy('priority').limit(3));
+                const second = await warp.classes.find(new Query(Task).sortBy('priority').limit(3).after(first.nextCursor!));
+                expect(first.previousCursor).to.equal(null);
+                expect(second.map(task => task.title)).to.deep.equal([ 'Test', 'Review', 'Deploy' ]);
+
+                const previous = await warp.classes.find(new Query(Task).sortBy('priority').limit(3).before(second.previousCursor!));
+                expect(previous.map(task => task.title)).to.deep.equal([ 'Idle', 'Later', 'Write' ]);
+            });
+
+            it('rejects cursors of another sorting', async () => {
+                const page = await warp.classes.find(new Query(Task).sortBy('priority').limit(2));
+
+                let error: any;
+                try {
+                    await warp.classes.find(new Query(Task).sortBy('title').after(page.nextCursor!));
+                } catch (err) {
+                    error = err;
+                }
+                expect(error).to.be.an.instanceof(Error).with.property('code', Error.Code.ForbiddenOperation);
+            });
+        });
+    });
+}
+
+describe('Query', () => {
+    describe('hidden keys', () => {
+        it('rejects hidden keys as aggregate and groupBy keys', () => {
+            expect(() => new Query(Task).max('secret')).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+            expect(() => new Query(Task).count().groupBy('secret')).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+            expect(() => new Query(Task).count('id', 'total').groupBy('status').having({ secret: { eq: '1234' } }))
+                .to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+        });
+
+        it('rejects hidden keys as sort keys, which cursors would reveal', () => {
+            expect(() => new Query(Task).sortBy('secret')).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+            expect(() => new Query(Task).sortBy('-secret')).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+            expect(() => new Query(Task).sortByDescending('secret')).to.throw(Error).with.property('code', Error.Code.InvalidObjectKey);
+        });
+
+        it('rejects hidden sort keys in requests', async () => {
+            const warp = await connect('memory://', { Task });
+            await warp.classes.save(new Task({ title: 'Write', status: 'open', secret: '1234' }));
+
+            const response = await request(warp, `/classes/task?sort=${encodeURIComponent('["secret"]')}`);
+            expect(response.status).to.equal(400);
+            expect(response.body.code).to.equal(Error.Code.InvalidObjectKey);
+        });
+
+        it('rejects hidden keys in aggregate requests', async () => {
+            const warp = await connect('memory://', { Task });
+            await warp.classes.save(new Task({ title: 'Write', status: 'open', secret: '1234' }));
+
+            const grouped = await request(warp, `/classes/task/aggregate?group_by=${encodeURIComponent('["secret"]')}`);
+            expect(grouped.status).to.equal(400);
+            expect(grouped.body.code).to.equal(Error.Code.InvalidObjectKey);
+
+            const aggregated = await request(warp, `/classes/task/aggregate?aggregate=${encodeURIComponent('{"leak":{"max":"secret"}}')}`);
+            expect(aggregated.status).to.equal(400);
+            expect(JSON.stringify(aggregated.body)).to.not.include('1234');
+        });
+    });
+
+    describe('malformed groups', () => {
+        it('rejects groups that are not lists of constraints', () => {
+            const malformed: any[] = [{ $or: { title: { eq: 'Write' } } }, { $and: 1 }, { $or: [null] }, { $or: ['title'] }];
+            for (const constraints of malformed) {
+                expect(() => new Query(Task).where(constraints)).to.throw(Error).with.property('code', Error.Code.InvalidQuery);
+                expect(() => new Query(Task).count('id', 'total').groupBy('status').having(constraints))
+                    .to.throw(Error).with.property('code', Error.Code.InvalidQuery);
+            }
+        });
+
+        it('rejects malformed groups in requests', async () => {
+            const warp = await connect('memory://', { Task });
+
+            const found = await request(warp, `/classes/task?where=${encodeURIComponent('{"$or":1}')}`);
+            expect(found.status).to.equal(400);
+            expect(found.body.code).to.equal(Error.Code.InvalidQuery);
+
+            const aggregated = await request(warp, `/classes/task/aggregate?aggregate=${encodeURIComponent('{"total":{"count":"id"}}')}`
+                + `&group_by=${encodeURIComponent('["status"]')}&having=${encodeURIComponent('{"$or":{}}')}`);
+            expect(aggregated.status).to.equal(400);
+            expect(aggregated.body.code).to.equal(Error.Code.InvalidQuery);
+        });
+    });
+});
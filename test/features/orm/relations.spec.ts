@@ -0,0 +1,153 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Collection, Query, define, key, hasMany } from '../../../dist';
+import { DatabaseURIs, connect } from '../../helpers';
+
+@define class Country extends Class {
+    @key public code: string;
+}
+
+@define class Location extends Class {
+    @key public city: string;
+    @key public country: Country;
+}
+
+@define class Author extends Class {
+    @key public name: string;
+    @key public verified: boolean;
+    @key public location: Location;
+    @key({ from: 'location.country' }) public country: Country;
+}
+
+@define class Post extends Class {
+    @key public title: string;
+    @key public author: Author;
+    @hasMany(() => Comment, 'post_id') public comments: Collection<Comment>;
+}
+
+@define class Comment extends Class {
+    @key public body: string;
+    @key public post: Post;
+    @key public author: Author;
+}
+
+for (const uri of DatabaseURIs) {
+    describe(`Query relations (${uri})`, () => {
+        let warp: Warp;
+
+        /**
+         * Find the titles of the matching posts, in order of creation
+         * @param {Query} query
+         */
+        const titles = async (query: Query<typeof Post>) => (await warp.classes.find(query.sortBy('id'))).map(post => post.title);
+
+        /**
+         * Find the names of the matching authors, in order of creation
+         * @param {Query} query
+         */
+        const names = async (query: Query<typeof Author>) => (await warp.classes.find(query.sortBy('id'))).map(author => author.name);
+
+        beforeEach(async () => {
+            warp = await connect(uri, { Country, Location, Author, Post, Comment });
+            const japan = await warp.classes.save(new Country({ code: 'JP' }));
+            const philippines = await warp.classes.save(new Country({ code: 'PH' }));
+            const tokyo = await warp.classes.save(new Location({ city: 'Tokyo', country_id: japan.id }));
+            const manila = await warp.classes.save(new Location({ city: 'Manila', country_id: philippines.id }));
+
+            const ann = await warp.classes.save(new Author({ name: 'Ann', verified: true, location_id: tokyo.id }));
+            const bob = await warp.classes.save(new Author({ name: 'Bob', verified: false, location_id: manila.id }));
+            const cid = await warp.classes.save(new Author({ name: 'Cid', verified: true }));
+
+            const hello = await warp.classes.save(new Post({ title: 'Hello', author_id: ann.id }));
+            const world = await warp.classes.save(new Post({ title: 'World', author_id: bob.id }));
+            await warp.classes.save(new Post({ title: 'Orphan' }));
+            await warp.classes.save(new Post({ title: 'Lonely', author_id: cid.id }));
+
+            await warp.classes.save(new Comment({ body: 'Nice', post_id: hello.id, author_id: bob.id }));
+            await warp.classes.save(new Comment({ body: 'Great', post_id: hello.id, author_id: cid.id }));
+            await warp.classes.save(new Comment({ body: 'Nice', post_id: world.id, author_id: ann.id }));
+        });
+
+        describe('whereHas', () => {
+            it('matches objects with a related object that matches the callback', async () => {
+                const query = new Query(Post).whereHas<typeof Author>('author', author => author.equalTo('verified', true));
+                expect(await titles(query)).to.deep.equal([ 'Hello', 'Lonely' ]);
+            });
+
+            it('matches objects with any related object without a callback', async () => {
+                expect(await titles(new Query(Post).whereHas('author'))).to.deep.equal([ 'Hello', 'World', 'Lonely' ]);
+            });
+
+            it('matches objects through secondary relations', async () => {
+                const query = new Query(Author).whereHas<typeof Country>('country', country => country.equalTo('code', 'JP'));
+                expect(await names(query)).to.deep.equal([ 'Ann' ]);
+            });
+
+            it('matches objects through hasMany relations', async () => {
+                const query = new Query(Post).whereHas<typeof Comment>('comments', comment => comment.equalTo('body', 'Great'));
+                expect(await titles(query)).to.deep.equal([ 'Hello' ]);
+            });
+
+            it('nests the related queries', async () => {
+                const query = new Query(Post).whereHas<typeof Author>('author', author =>
+                    author.whereHas<typeof Country>('country', country => country.equalTo('code', 'PH')));
+                expect(await titles(query)).to.deep.equal([ 'World' ]);
+            });
+
+            it('does not duplicate objects with several matches', async () => {
+                const query = new Query(Post).whereHas<typeof Comment>('comments', comment => comment.equalTo('body', 'Nice'));
+                expect(await titles(query)).to.deep.equal([ 'Hello', 'World' ]);
+                expect(await warp.classes.count(new Query(Post).whereHas('comments'))).to.equal(2);
+            });
+        });
+
+        describe('whereDoesNotHave', () => {
+            it('matches objects without a related object that matches the callback', async () => {
+                const query = new Query(Post).whereDoesNotHave<typeof Author>('author', author => author.equalTo('verified', true));
+                expect(await titles(query)).to.deep.equal([ 'World', 'Orphan' ]);
+            });
+
+            it('matches objects without any related object without a callback', async () => {
+                expect(await titles(new Query(Post).whereDoesNotHave('author'))).to.deep.equal([ 'Orphan' ]);
+                expect(await titles(new Query(Post).whereDoesNotHave('comments'))).to.deep.equal([ 'Orphan', 'Lonely' ]);
+            });
+
+            it('matches objects through secondary relations', async () => {
+                expect(await names(new Query(Author).whereDoesNotHave('country'))).to.deep.equal([ 'Cid' ]);
+            });
+        });
+
+        describe('nested includes', () => {
+            it('includes the relations of a relation', async () => {
+                const comment = await warp.classes.first(new Query(Comment).include('post.author.name').sortBy('id'));
+                expect(comment!.post.id).to.equal(1);
+                expect(comment!.post.author.name).to.equal('Ann');
+                expect(JSON.parse(JSON.stringify(comment)).post).to.deep.equal({
+                    type: 'Relation',
+                    class_name: 'post',
+                    attributes: { author: { type: 'Relation', class_name: 'author', attributes: { name: 'Ann' } } },
+                    id: 1,
+                });
+            });
+
+            it('joins each path to the same class under its own alias', async () => {
+                const comments = await warp.classes.find(new Query(Comment).include('author.name', 'post.author.name').sortBy('id'));
+                expect(comments.map(comment => [ comment.author.name, comment.post.author.name ])).to.deep.equal([
+                    [ 'Bob', 'Ann' ],
+                    [ 'Cid', 'Ann' ],
+                    [ 'Ann', 'Bob' ],
+                ]);
+            });
+
+            it('includes secondary relations of a relation', async () => {
+                const comments = await warp.classes.find(new Query(Comment).include('post.author.country.code').sortBy('id'));
+                expect(comments.map(comment => comment.post.author.country.code)).to.deep.equal([ 'JP', 'JP', 'PH' ]);
+            });
+
+            it('filters and sorts by the keys of nested relations', async () => {
+                const query = new Query(Comment).include('author.name', 'post.author.name').equalTo('post.author.name', 'Ann').sortBy('-author.name');
+                expect((await warp.classes.find(query)).map(comment => comment.body)).to.deep.equal([ 'Great', 'Nice' ]);
+            });
+        });
+    });
+}
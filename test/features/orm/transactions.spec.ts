@@ -0,0 +1,115 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import Warp, { Class, Query, define, key, beforeSave } from '../../../dist';
+import { DatabaseURIs, connect } from '../../helpers';
+
+/**
+ * The app whose classes are used by the triggers
+ */
+let app: Warp;
+
+@define class Counter extends Class {
+    @key public value: number;
+}
+
+@define class Audit extends Class {
+    @key public message: string;
+}
+
+@define class Note extends Class {
+    @key public text: string;
+
+    @beforeSave
+    public async audit() {
+        // Use the app-level manager, instead of the one the trigger is handed
+        await app.classes.save(new Audit({ message: `Saved ${this.text}` }));
+    }
+}
+
+/**
+ * Wait for the other statements to be scheduled
+ */
+const pause = () => new Promise(resolve => setTimeout(resolve, 10));
+
+for (const uri of DatabaseURIs) {
+    describe(`ClassManager.transaction (${uri})`, () => {
+        let warp: Warp;
+
+        beforeEach(async () => {
+            warp = app = await connect(uri, { Counter, Audit, Note });
+            await warp.classes.save(new Counter({ value: 0 }));
+        });
+
+        /**
+         * Read the counter, then write it back after the other transactions had a chance to run
+         */
+        const increment = () => warp.classes.transaction(async tx => {
+            const counter = await tx.getById(Counter, 1);
+            await pause();
+            counter!.value = counter!.value + 1;
+            await tx.save(counter!);
+        });
+
+        it('commits the statements once the callback resolves', async () => {
+            await warp.classes.transaction(tx => tx.save(new Counter({ value: 5 })));
+
+            const counters = await warp.classes.find(new Query(Counter).sortBy('id'));
+            expect(counters.map(counter => counter.value)).to.deep.equal([ 0, 5 ]);
+        });
+
+        it('rolls back the statements if the callback throws', async () => {
+            let error: any;
+            try {
+                await warp.classes.transaction(async tx => {
+                    await tx.save(new Counter({ value: 5 }));
+                    throw new Error('Failed');
+                });
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.an('error');
+            expect(await warp.classes.count(new Query(Counter))).to.equal(1);
+        });
+
+        it('runs concurrent transactions one at a time', async () => {
+            await Promise.all([ increment(), increment(), increment() ]);
+
+            const counter = await warp.classes.getById(Counter, 1);
+            expect(counter!.value).to.equal(3);
+        });
+
+        it('runs statements outside of a transaction once it ends', async () => {
+            const running = increment();
+            await pause();
+            const counter = await warp.classes.getById(Counter, 1);
+            await running;
+
+            expect(counter!.value).to.equal(1);
+        });
+
+        it('runs the statements of triggers that use the app-level manager inside the transaction', async () => {
+            await warp.classes.saveMany([ new Note({ text: 'first' }), new Note({ text: 'second' }) ]);
+
+            const audits = await warp.classes.find(new Query(Audit).sortBy('id'));
+            expect(audits.map(audit => audit.message)).to.deep.equal([ 'Saved first', 'Saved second' ]);
+        });
+
+        it('rolls back the statements of triggers that use the app-level manager', async () => {
+            let error: any;
+            try {
+                await warp.classes.transaction(async tx => {
+                    await tx.save(new Note({ text: 'first' }));
+                    await warp.classes.transaction(nested => nested.save(new Note({ text: 'second' })));
+                    throw new Error('Failed');
+                });
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).to.be.an('error');
+            expect(await warp.classes.count(new Query(Note))).to.equal(0);
+            expect(await warp.classes.count(new Query(Audit))).to.equal(0);
+        });
+    });
+}
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import ClassGenerator from '../../../dist/features/scaffolding/class-generator';
+
+/**
+ * Columns of the tables, as described by `information_schema.COLUMNS`
+ */
+const columns = [
+    [ 'book', 'id', 'int', 'int(11)', null ],
+    [ 'book', 'title', 'text', 'text', 65535 ],
+    [ 'book', 'author_id', 'int', 'int(11)', null ],
+    [ 'book', 'editor_code', 'varchar', 'varchar(10)', 10 ],
+    [ 'book', 'created_at', 'datetime', 'datetime', null ],
+    [ 'book', 'updated_at', 'datetime', 'datetime', null ],
+    [ 'author', 'id', 'int', 'int(11)', null ],
+    [ 'author', 'code', 'varchar', 'varchar(10)', 10 ],
+    [ 'author', 'name', 'varchar', 'varchar(50)', 50 ],
+    [ 'author', 'status', 'enum', 'enum(\'active\',\'retired\')', 7 ],
+    [ 'author', 'is_admin', 'tinyint', 'tinyint(1)', null ],
+    [ 'author', 'profile', 'json', 'json', null ],
+    [ 'author', 'location', 'point', 'point', null ],
+    [ 'author', 'deleted_at', 'datetime', 'datetime', null ],
+    [ 'book_tag', 'book_id', 'int', 'int(11)', null ],
+    [ 'warp_migrations', 'id', 'int', 'int(11)', null ],
+].map(([ table, column, dataType, columnType, maxLength ]) => ({
+    table_name: table, column_name: column, data_type: dataType, column_type: columnType, max_length: maxLength,
+}));
+
+/**
+ * Foreign keys of the tables, as described by `information_schema.KEY_COLUMN_USAGE`
+ */
+const foreignKeys = [
+    [ 'book', 'author_id', 'author', 'id' ],
+    [ 'book', 'editor_code', 'author', 'code' ],
+    [ 'book_tag', 'book_id', 'book', 'id' ],
+].map(([ table, column, referencedTable, referencedColumn ]) => ({
+    table_name: table, column_name: column, referenced_table: referencedTable, referenced_column: referencedColumn,
+}));
+
+/**
+ * A client that answers the queries of the generator
+ */
+const client: any = {
+    query: async (queryString: string) => ({ rows: queryString.includes('KEY_COLUMN_USAGE') ? foreignKeys : columns }),
+};
+
+describe('ClassGenerator', () => {
+    it('generates classes, with related classes defined first', async () => {
+        const source = await new ClassGenerator(client).generate();
+        expect(source).to.equal([
+            'import { Class, define, key, length, enumerated } from \'warp-server\';',
+            '',
+            '// Skipped tables without an `id`: book_tag',
+            '',
+            '@define export class Author extends Class {',
+            '',
+            '    @length(0, 10) @key code: string;',
+            '    @length(0, 50) @key name: string;',
+            '    @enumerated([ \'active\', \'retired\' ]) @key status: string;',
+            '    @key isAdmin: boolean;',
+            '    @key({ type: \'json\' }) profile: object;',
+            '    // Skipped `location`: `point` columns are not supported',
+            '',
+            '}',
+            '',
+            '@define({ softDeletes: false }) export class Book extends Class {',
+            '',
+            '    @key title: string;',
+            '    @key author: Author;',
+            '    @key({ from: \'*.editor_code\', to: \'editor_code.code\' }) editorCode: Author;',
+            '',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    it('generates the given tables only', async () => {
+        const source = await new ClassGenerator(client).generate([ 'book' ]);
+        expect(source).to.include('export class Book extends Class');
+        expect(source).to.not.include('export class Author');
+
+        // Relations to classes that are not generated are kept as columns
+        expect(source).to.include('    @key authorId: number;');
+        expect(source).to.include('    @length(0, 10) @key editorCode: string;');
+    });
+});
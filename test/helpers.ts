@@ -0,0 +1,90 @@
+import http from 'http';
+import express from 'express';
+import Warp, { Class } from '../dist';
+import Database from '../dist/adapters/database';
+import Logger from '../dist/adapters/logger';
+import { DatabaseRead, DatabaseWrite, InternalKeys } from '../dist/utils/constants';
+import { URIConfig, IDatabaseAdapter } from '../dist/types/database';
+import { getSchemasFrom, getOperationsFrom } from '../dist/features/migrations/schema';
+
+/**
+ * Databases that every adapter test runs against
+ */
+export const DatabaseURIs = [ 'memory://', 'sqlite::memory:' ];
+
+/**
+ * Keys of the Warp instances created by `connect`
+ */
+export const ApiKey = 'test-api-key';
+export const MasterKey = 'test-master-key';
+
+/**
+ * Open a fresh database
+ * @param {String} uri
+ * @param {String} readURI to read from a different database
+ */
+export const open = async (uri: string, readURI: string = uri): Promise<IDatabaseAdapter> => {
+    const logger = Logger.use('console', 'Test', 'disabled');
+    const uris: URIConfig[] = [ { uri: readURI, action: DatabaseRead }, { uri, action: DatabaseWrite } ];
+    const database = Database.use(uri.split(':')[0], { uris, persistent: false, logger });
+    await database.initialize();
+    return database;
+};
+
+/**
+ * Create a Warp instance on a fresh database, with the tables of the given classes
+ * @description Tables are created on the write database
+ * @param {String} uri
+ * @param {Object} classes
+ * @param {String} readURI to read from a different database
+ */
+export const connect = async (uri: string, classes: { [name: string]: typeof Class }, readURI: string = uri): Promise<Warp> => {
+    const database = await open(uri, readURI);
+    await database.migrate(getOperationsFrom(getSchemasFrom(Object.values(classes)), []));
+
+    const warp = new Warp({ database, apiKey: ApiKey, masterKey: MasterKey, restful: true });
+    warp.classes.register(classes);
+    return warp;
+};
+
+/**
+ * Send a GET request to the router of a Warp instance
+ * @param {Warp} warp
+ * @param {String} path
+ * @param {Object} headers, which only include the API key by default
+ */
+export const request = async (
+    warp: Warp,
+    path: string,
+    headers: { [name: string]: string } = { [InternalKeys.Middleware.ApiKey]: ApiKey },
+): Promise<{ status: number, body: any }> => {
+    // Serve the router on any available port
+    const app = express();
+    app.use(warp.router);
+
+    // Respond to the errors of the middleware, such as invalid keys, the same way as those of the routes
+    app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => warp.response.error(err, req, res, next));
+    const server = http.createServer(app);
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+        return await new Promise<{ status: number, body: any }>((resolve, reject) => {
+            http.get({ host: '127.0.0.1', port, path, headers, agent: false }, response => {
+                let data = '';
+                response.setEncoding('utf8');
+                response.on('data', chunk => data += chunk);
+                response.on('end', () => {
+                    // Errors that are not handled by the router are returned as text
+                    let body: any = data;
+                    try {
+                        body = JSON.parse(data);
+                    } catch (err) { /* do nothing */ }
+                    resolve({ status: response.statusCode || 0, body });
+                });
+            }).on('error', reject);
+        });
+    } finally {
+        server.close();
+    }
+};
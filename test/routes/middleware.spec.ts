@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import Warp, { Function } from '../../dist';
+import Error from '../../dist/utils/error';
+import { InternalKeys } from '../../dist/utils/constants';
+import { ApiKey, MasterKey, connect, request } from '../helpers';
+
+class Purge extends Function {
+    static get masterOnly() {
+        return true;
+    }
+
+    public run() {
+        return 'purged';
+    }
+}
+
+describe('Router middleware', () => {
+    let warp: Warp;
+
+    beforeEach(async () => {
+        warp = await connect('memory://', {});
+        warp.functions.register({ Purge });
+    });
+
+    it('rejects requests without a valid API key', async () => {
+        const response = await request(warp, '/functions/Purge', { [InternalKeys.Middleware.ApiKey]: 'wrong-api-key' });
+        expect(response.status).to.equal(400);
+        expect(response.body.code).to.equal(Error.Code.InvalidAPIKey);
+    });
+
+    it('rejects requests with an invalid master key', async () => {
+        const headers = { [InternalKeys.Middleware.ApiKey]: ApiKey, [InternalKeys.Middleware.MasterKey]: 'wrong-master-key' };
+        const response = await request(warp, '/functions/Purge', headers);
+        expect(response.status).to.equal(400);
+        expect(response.body.code).to.equal(Error.Code.InvalidAPIKey);
+        expect(response.body.message).to.equal('Invalid Master Key');
+    });
+
+    it('runs master-only functions for requests with the master key', async () => {
+        const headers = { [InternalKeys.Middleware.ApiKey]: ApiKey, [InternalKeys.Middleware.MasterKey]: MasterKey };
+        const response = await request(warp, '/functions/Purge', headers);
+        expect(response.status).to.equal(200);
+        expect(response.body.result).to.equal('purged');
+    });
+
+    it('forbids master-only functions for requests without the master key', async () => {
+        const response = await request(warp, '/functions/Purge');
+        expect(response.status).to.equal(403);
+        expect(response.body.code).to.equal(Error.Code.ForbiddenOperation);
+    });
+});
@@ -0,0 +1,30 @@
+import 'reflect-metadata';
+import { expect } from 'chai';
+import { Class, define, key } from '../../dist';
+import Collection from '../../dist/utils/collection';
+
+@define class Item extends Class {
+    @key public name: string;
+}
+
+describe('Collection', () => {
+    describe('iterator', () => {
+        it('iterates over every object, including the last one', () => {
+            const collection = new Collection([ new Item({ name: 'first' }), new Item({ name: 'second' }), new Item({ name: 'last' }) ]);
+
+            const names: string[] = [];
+            for (const item of collection) names.push(item.name);
+            expect(names).to.deep.equal([ 'first', 'second', 'last' ]);
+            expect([ ...collection ].length).to.equal(3);
+        });
+
+        it('destructures collections of a single object', () => {
+            const [ item ] = new Collection([ new Item({ name: 'only' }) ]);
+            expect(item.name).to.equal('only');
+        });
+
+        it('ends immediately for empty collections', () => {
+            expect([ ...new Collection<Item>([]) ]).to.deep.equal([]);
+        });
+    });
+});